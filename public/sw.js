@@ -0,0 +1,117 @@
+// Service worker: caches the app shell for offline use and queues failed
+// screenshot uploads into the shared IndexedDB outbox (see src/utils/outbox.ts).
+// Registered as sw.js?dev on the dev server: there it only queues uploads (no caching next to HMR).
+
+const SHELL_CACHE = 'qr-scanner-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Must match DB_NAME / STORE_OUTBOX in src/utils/db.ts
+const DB_NAME = 'qr-scanner-client';
+const STORE_OUTBOX = 'outbox';
+// Must match OUTBOX_REPLAY_HEADER in src/utils/outbox.ts
+const OUTBOX_REPLAY_HEADER = 'X-Outbox-Replay';
+
+const IS_DEV = new URL(self.location.href).searchParams.has('dev');
+
+self.addEventListener('install', event => {
+  if (IS_DEV) {
+    event.waitUntil(self.skipWaiting());
+    return;
+  }
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => IS_DEV || key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Outbox replays go straight to the network: queueing them again would report a failed
+  // replay as delivered (202) and the entry would be replayed forever
+  if (request.method === 'POST' && url.pathname === '/upload-screenshot' && !request.headers.has(OUTBOX_REPLAY_HEADER)) {
+    event.respondWith(fetch(request.clone()).catch(() => queueRequest(request, 'screenshot')));
+    return;
+  }
+  if (request.method !== 'GET' || IS_DEV) return;
+
+  // Navigations: network first so deployments are picked up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then(cache => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Static assets (hashed by Vite): cache first, populate on demand
+  if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then(cached => cached || fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+        }
+        return response;
+      }))
+    );
+  }
+});
+
+// Opens the client database at its current version (the page owns the schema)
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function queueRequest(request, kind) {
+  // Raw bytes: multipart and raw image uploads must be replayed unchanged (with their boundary header)
+  const body = await request.arrayBuffer();
+  const db = await openDb();
+  if (!db.objectStoreNames.contains(STORE_OUTBOX)) {
+    db.close();
+    return Response.error();
+  }
+  await new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+    tx.objectStore(STORE_OUTBOX).add({
+      kind,
+      url: new URL(request.url).pathname,
+      body,
+      contentType: request.headers.get('Content-Type') || 'application/json',
+      createdAt: Date.now(),
+      attempts: 0,
+    });
+    tx.oncomplete = resolve;
+    tx.onerror = () => reject(tx.error);
+  });
+  db.close();
+
+  // Let open pages refresh their pending indicator and schedule a replay
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage({ type: 'outbox-updated' }));
+
+  return new Response(JSON.stringify({ status: 'queued' }), {
+    status: 202,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * Self-contained HTML page served at /debug by the dev server.
+ * Lists known clients (with aggregated scan telemetry), their stored logs (with live tail over SSE) and their screenshots.
+ */
+export function renderDebugPage(): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>QR Scanner Client – Debug</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; display: grid; grid-template-columns: 280px 1fr; height: 100vh; background: #1b1b1b; color: #e0e0e0; }
+    aside { border-right: 1px solid #333; overflow-y: auto; padding: 12px; }
+    main { display: grid; grid-template-rows: auto 1fr auto; overflow: hidden; padding: 12px; gap: 8px; }
+    .client { padding: 8px; border-radius: 6px; cursor: pointer; margin-bottom: 4px; }
+    .client:hover, .client.active { background: #2c2c2c; }
+    .client small { display: block; color: #999; }
+    .online::before { content: '●'; color: #4caf50; margin-right: 6px; }
+    .offline::before { content: '●'; color: #777; margin-right: 6px; }
+    #filters { display: flex; gap: 8px; flex-wrap: wrap; align-items: center; }
+    #filters input, #filters select { background: #2c2c2c; color: inherit; border: 1px solid #444; border-radius: 4px; padding: 4px 6px; }
+    #logs { overflow-y: auto; font-family: ui-monospace, monospace; font-size: 12px; background: #111; border-radius: 6px; padding: 8px; }
+    .entry { white-space: pre-wrap; word-break: break-all; padding: 1px 0; }
+    .WARN { color: #f0c36d; } .EROR, .ERROR { color: #ff6b6b; } .DEBG { color: #8a8a8a; }
+    #shots { display: flex; gap: 8px; overflow-x: auto; min-height: 0; }
+    #shots .shot { flex: none; position: relative; }
+    #shots img { height: 120px; border-radius: 4px; border: 1px solid #444; }
+    #shots .shot button { position: absolute; top: 4px; right: 4px; background: rgba(0, 0, 0, 0.6); color: #fff; border: none; border-radius: 4px; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <aside>
+    <h3>Clients</h3>
+    <div class="client active" data-client="">All clients</div>
+    <div id="clients"></div>
+  </aside>
+  <main>
+    <div id="filters">
+      <select id="level" multiple size="1" title="Levels (Ctrl/Cmd for multiple)">
+        <option value="DEBG">DEBUG</option><option value="INFO">INFO</option>
+        <option value="WARN">WARN</option><option value="EROR">ERROR</option>
+      </select>
+      <input id="component" placeholder="Component" />
+      <input id="from" type="datetime-local" title="From" />
+      <input id="to" type="datetime-local" title="To" />
+      <label><input id="live" type="checkbox" checked /> Live tail</label>
+      <button id="apply">Apply</button>
+      <button id="deleteShots" title="Delete all screenshots of the selected client">Delete screenshots</button>
+    </div>
+    <div id="logs"></div>
+    <div id="shots"></div>
+  </main>
+  <script>
+    let selectedClient = '';
+    let source = null;
+    const $ = id => document.getElementById(id);
+
+    function filterParams() {
+      const params = new URLSearchParams();
+      if (selectedClient) params.set('clientId', selectedClient);
+      const levels = [...$('level').selectedOptions].map(o => o.value);
+      if (levels.length) params.set('level', levels.join(','));
+      if ($('component').value) params.set('component', $('component').value);
+      if ($('from').value) params.set('from', new Date($('from').value).toISOString());
+      if ($('to').value) params.set('to', new Date($('to').value).toISOString());
+      return params;
+    }
+
+    function renderEntry(e) {
+      const div = document.createElement('div');
+      div.className = 'entry ' + e.level;
+      const data = e.data === null || e.data === undefined ? '' : ' ' + JSON.stringify(e.data);
+      div.textContent = '[' + (e.clientTimestamp || e.serverTimestamp) + ' - ' + e.clientId + ' - ' + e.level + '] [' + e.source + ' - ' + e.component + '] ' + e.message + data;
+      return div;
+    }
+
+    function describeTelemetry(t) {
+      const track = t.lastTrack || {};
+      const parts = [t.attemptsPerSecond + ' att/s', t.avgDecodeMs + ' ms/decode', (t.errorRate * 100).toFixed(1) + ' % errors'];
+      const ttfs = t.medianTimeToFirstScanMs ?? t.lastTimeToFirstScanMs;
+      if (ttfs !== null) parts.push('first scan ' + ttfs + ' ms');
+      if (track.width) parts.push(track.width + '×' + track.height + (track.frameRate ? '@' + track.frameRate : ''));
+      return parts.join(' · ');
+    }
+
+    async function loadClients() {
+      const [clients, telemetry] = await Promise.all([
+        fetch('/log/clients').then(r => r.json()),
+        fetch('/log/telemetry').then(r => r.json()),
+      ]);
+      const telemetryById = Object.fromEntries(telemetry.map(t => [t.clientId, t]));
+      const container = $('clients');
+      container.innerHTML = '';
+      for (const c of clients) {
+        const div = document.createElement('div');
+        div.className = 'client' + (c.clientId === selectedClient ? ' active' : '');
+        div.dataset.client = c.clientId;
+        const name = document.createElement('span');
+        name.className = c.online ? 'online' : 'offline';
+        name.textContent = c.clientId;
+        const info = document.createElement('small');
+        info.textContent = c.entries + ' logs, ' + c.errors + ' errors, ' + c.screenshots + ' screenshots · ' + new Date(c.lastSeen).toLocaleTimeString();
+        div.append(name, info);
+        if (telemetryById[c.clientId]) {
+          const stats = document.createElement('small');
+          stats.textContent = describeTelemetry(telemetryById[c.clientId]);
+          div.appendChild(stats);
+        }
+        container.appendChild(div);
+      }
+    }
+
+    async function loadLogs() {
+      const params = filterParams();
+      params.set('limit', '500');
+      const entries = await (await fetch('/log?' + params)).json();
+      const logs = $('logs');
+      logs.innerHTML = '';
+      entries.forEach(e => logs.appendChild(renderEntry(e)));
+      logs.scrollTop = logs.scrollHeight;
+
+      if (source) source.close();
+      source = null;
+      if ($('live').checked) {
+        const liveParams = filterParams();
+        liveParams.delete('to');
+        source = new EventSource('/log/stream?' + liveParams);
+        source.onmessage = event => {
+          const atBottom = logs.scrollTop + logs.clientHeight >= logs.scrollHeight - 20;
+          logs.appendChild(renderEntry(JSON.parse(event.data)));
+          if (atBottom) logs.scrollTop = logs.scrollHeight;
+        };
+      }
+    }
+
+    async function loadShots() {
+      const params = new URLSearchParams();
+      if (selectedClient) params.set('clientId', selectedClient);
+      const shots = await (await fetch('/upload-screenshot?' + params)).json();
+      const container = $('shots');
+      container.innerHTML = '';
+      for (const s of shots) {
+        const shot = document.createElement('div');
+        shot.className = 'shot';
+        const link = document.createElement('a');
+        link.href = '/upload-screenshot/' + encodeURIComponent(s.file);
+        link.target = '_blank';
+        link.title = s.clientId + ' · ' + s.createdAt + (s.note ? ' · ' + s.note : '');
+        const img = document.createElement('img');
+        img.src = link.href;
+        img.loading = 'lazy';
+        link.appendChild(img);
+        const remove = document.createElement('button');
+        remove.textContent = '×';
+        remove.title = 'Delete screenshot';
+        remove.addEventListener('click', async () => {
+          await fetch(link.href, { method: 'DELETE' });
+          refresh();
+        });
+        shot.append(link, remove);
+        container.appendChild(shot);
+      }
+      $('deleteShots').disabled = !selectedClient || shots.length === 0;
+    }
+
+    function refresh() {
+      loadLogs();
+      loadShots();
+      loadClients();
+    }
+
+    document.querySelector('aside').addEventListener('click', event => {
+      const target = event.target.closest('.client');
+      if (!target) return;
+      selectedClient = target.dataset.client;
+      document.querySelectorAll('.client').forEach(el => el.classList.toggle('active', el === target));
+      refresh();
+    });
+    $('apply').addEventListener('click', refresh);
+    $('deleteShots').addEventListener('click', async () => {
+      if (!selectedClient || !confirm('Delete all screenshots of ' + selectedClient + '?')) return;
+      await fetch('/upload-screenshot?clientId=' + encodeURIComponent(selectedClient), { method: 'DELETE' });
+      refresh();
+    });
+    setInterval(loadClients, 5000);
+    refresh();
+  </script>
+</body>
+</html>`;
+}
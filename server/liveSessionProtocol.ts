@@ -0,0 +1,32 @@
+// Messages of the live scan session WebSocket (/live-session), shared by the hub (liveSessions.ts)
+// and the client (src/utils/liveSession.ts). Types only: the client build includes this file.
+
+export interface LiveParticipant {
+  clientId: string;
+  name: string;
+}
+
+/** One distinct scanned value with everyone who scanned it. */
+export interface LiveSessionEntry {
+  value: string;
+  firstScannedAt: number;
+  lastScannedAt: number;
+  scannedBy: Array<LiveParticipant & { count: number; lastScannedAt: number }>;
+}
+
+export type LiveSessionErrorReason = 'not-found' | 'not-joined' | 'invalid-message' | 'session-full';
+
+// Client -> server
+export type LiveClientMessage =
+  | { type: 'create'; clientId: string; name: string }
+  | { type: 'join'; code: string; clientId: string; name: string }
+  | { type: 'scan'; value: string }
+  | { type: 'leave' };
+
+// Server -> client
+export type LiveServerMessage =
+  | { type: 'joined'; code: string; participants: LiveParticipant[]; entries: LiveSessionEntry[] }
+  | { type: 'participants'; participants: LiveParticipant[] }
+  | { type: 'entry'; entry: LiveSessionEntry }
+  | { type: 'left' }
+  | { type: 'error'; reason: LiveSessionErrorReason };
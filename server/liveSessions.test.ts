@@ -0,0 +1,163 @@
+// @vitest-environment node
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { LiveServerMessage, LiveSessionHub, createLiveSessionHub } from './liveSessions';
+
+let hub: LiveSessionHub;
+let server: http.Server;
+let url: string;
+const clients: WebSocket[] = [];
+
+interface TestClient {
+  send: (message: Record<string, unknown>) => void;
+  /** Next server message of the given type (earlier messages of other types are skipped). */
+  next: <T extends LiveServerMessage['type']>(type: T) => Promise<Extract<LiveServerMessage, { type: T }>>;
+  close: () => void;
+}
+
+async function connect(): Promise<TestClient> {
+  const socket = new WebSocket(url);
+  clients.push(socket);
+  const received: LiveServerMessage[] = [];
+  let notify = () => {};
+  socket.on('message', data => {
+    received.push(JSON.parse(data.toString()));
+    notify();
+  });
+  await new Promise(resolve => socket.once('open', resolve));
+  return {
+    send: message => socket.send(JSON.stringify(message)),
+    next: async type => {
+      for (;;) {
+        const index = received.findIndex(m => m.type === type);
+        if (index >= 0) return received.splice(0, index + 1)[index] as never;
+        await new Promise<void>(resolve => (notify = resolve));
+      }
+    },
+    close: () => socket.close(),
+  };
+}
+
+async function startHub(options: Parameters<typeof createLiveSessionHub>[0] = {}) {
+  hub = createLiveSessionHub(options);
+  server = http.createServer();
+  server.on('upgrade', (req, socket, head) => hub.handleUpgrade(req, socket, head));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/live-session`;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  clients.splice(0).forEach(socket => socket.terminate());
+  hub.close();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('live session hub', () => {
+  it('creates a session and lets others join it by code', async () => {
+    await startHub();
+    const alice = await connect();
+    alice.send({ type: 'create', clientId: 'client_a', name: 'Alice' });
+    const created = await alice.next('joined');
+    expect(created.code).toMatch(/^[A-Z2-9]{6}$/);
+    expect(created.participants).toEqual([{ clientId: 'client_a', name: 'Alice' }]);
+
+    const bob = await connect();
+    bob.send({ type: 'join', code: created.code.toLowerCase(), clientId: 'client_b', name: '' });
+    const joined = await bob.next('joined');
+    expect(joined.code).toBe(created.code);
+    // Without a name the client ID is shown
+    expect(joined.participants).toEqual([
+      { clientId: 'client_a', name: 'Alice' },
+      { clientId: 'client_b', name: 'client_b' },
+    ]);
+    expect((await alice.next('participants')).participants).toHaveLength(2);
+    expect(hub.sessions()).toMatchObject([{ code: created.code, entries: 0 }]);
+  });
+
+  it('merges scans per value and broadcasts them to every participant', async () => {
+    await startHub();
+    const alice = await connect();
+    alice.send({ type: 'create', clientId: 'client_a', name: 'Alice' });
+    const { code } = await alice.next('joined');
+    const bob = await connect();
+    bob.send({ type: 'join', code, clientId: 'client_b', name: 'Bob' });
+    await bob.next('joined');
+
+    alice.send({ type: 'scan', value: 'ABC-1' });
+    expect((await bob.next('entry')).entry).toMatchObject({ value: 'ABC-1', scannedBy: [{ clientId: 'client_a', count: 1 }] });
+    bob.send({ type: 'scan', value: 'ABC-1' });
+    bob.send({ type: 'scan', value: 'ABC-1' });
+    await alice.next('entry');
+    await alice.next('entry');
+    const { entry } = await alice.next('entry');
+    expect(entry.scannedBy).toMatchObject([
+      { clientId: 'client_a', name: 'Alice', count: 1 },
+      { clientId: 'client_b', name: 'Bob', count: 2 },
+    ]);
+
+    // Late joiners get the merged list
+    const carol = await connect();
+    carol.send({ type: 'join', code, clientId: 'client_c', name: 'Carol' });
+    const joined = await carol.next('joined');
+    expect(joined.entries).toHaveLength(1);
+    expect(joined.entries[0].value).toBe('ABC-1');
+  });
+
+  it('rejects unknown codes, scans outside a session and full sessions', async () => {
+    await startHub({ maxEntries: 1 });
+    const alice = await connect();
+    alice.send({ type: 'join', code: 'ZZZZZZ', clientId: 'client_a', name: 'Alice' });
+    expect(await alice.next('error')).toEqual({ type: 'error', reason: 'not-found' });
+    alice.send({ type: 'scan', value: 'ABC-1' });
+    expect((await alice.next('error')).reason).toBe('not-joined');
+    alice.send({ type: 'bogus' });
+    expect((await alice.next('error')).reason).toBe('invalid-message');
+
+    alice.send({ type: 'create', clientId: 'client_a', name: 'Alice' });
+    await alice.next('joined');
+    alice.send({ type: 'scan', value: 'ABC-1' });
+    await alice.next('entry');
+    alice.send({ type: 'scan', value: 'ABC-2' });
+    expect((await alice.next('error')).reason).toBe('session-full');
+  });
+
+  it('updates the participants on leave and drops sessions that stay empty', async () => {
+    await startHub({ emptySessionTtlMs: 50 });
+    const alice = await connect();
+    alice.send({ type: 'create', clientId: 'client_a', name: 'Alice' });
+    const { code } = await alice.next('joined');
+    const bob = await connect();
+    bob.send({ type: 'join', code, clientId: 'client_b', name: 'Bob' });
+    await bob.next('joined');
+    await alice.next('participants');
+
+    bob.send({ type: 'leave' });
+    await bob.next('left');
+    expect((await alice.next('participants')).participants).toEqual([{ clientId: 'client_a', name: 'Alice' }]);
+
+    alice.close();
+    await vi.waitFor(() => expect(hub.sessions()).toEqual([]));
+    bob.send({ type: 'join', code, clientId: 'client_b', name: 'Bob' });
+    expect((await bob.next('error')).reason).toBe('not-found');
+  });
+
+  it('arms no expiry timers for the sessions it drops on close', async () => {
+    await startHub({ emptySessionTtlMs: 12345 });
+    const alice = await connect();
+    alice.send({ type: 'create', clientId: 'client_a', name: 'Alice' });
+    await alice.next('joined');
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+
+    const closedByServer = new Promise(resolve => clients[0].once('close', resolve));
+    hub.close();
+    await closedByServer;
+    await new Promise(resolve => setImmediate(resolve));
+    expect(setTimeoutSpy.mock.calls.filter(([, ms]) => ms === 12345)).toEqual([]);
+  });
+});
@@ -0,0 +1,263 @@
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { LiveClientMessage, LiveParticipant, LiveServerMessage, LiveSessionEntry } from './liveSessionProtocol';
+
+export type { LiveClientMessage, LiveParticipant, LiveServerMessage, LiveSessionEntry, LiveSessionErrorReason } from './liveSessionProtocol';
+
+export interface LiveSessionSummary {
+  code: string;
+  createdAt: number;
+  participants: LiveParticipant[];
+  entries: number;
+}
+
+export interface LiveSessionHubOptions {
+  /** Sessions nobody is connected to are dropped after this time (reconnects within it rejoin). */
+  emptySessionTtlMs?: number;
+  /** Distinct values kept per session; further new values are rejected. */
+  maxEntries?: number;
+  /** Interval of the ping that drops dead connections (phones going to sleep). */
+  heartbeatMs?: number;
+}
+
+interface LiveSession {
+  code: string;
+  createdAt: number;
+  sockets: Set<WebSocket>;
+  entries: Map<string, LiveSessionEntry>;
+  expiryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Connection {
+  participant: LiveParticipant;
+  session: LiveSession | null;
+  alive: boolean;
+}
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_VALUE_LENGTH = 4096;
+const MAX_NAME_LENGTH = 40;
+
+const text = (value: unknown, maxLength: number) => (typeof value === 'string' ? value.trim().slice(0, maxLength) : '');
+
+function parseMessage(raw: string): LiveClientMessage | null {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) return null;
+  const clientId = text(message.clientId, 100);
+  const name = text(message.name, MAX_NAME_LENGTH) || clientId;
+  switch (message.type) {
+    case 'create':
+      return clientId ? { type: 'create', clientId, name } : null;
+    case 'join':
+      return clientId && typeof message.code === 'string'
+        ? { type: 'join', code: message.code.trim().toUpperCase(), clientId, name }
+        : null;
+    case 'scan': {
+      const value = typeof message.value === 'string' ? message.value : '';
+      return value && value.length <= MAX_VALUE_LENGTH ? { type: 'scan', value } : null;
+    }
+    case 'leave':
+      return { type: 'leave' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * WebSocket hub for live scan sessions: clients create or join a session by code and every
+ * accepted scan is merged into the session's list (one entry per value, with who scanned it)
+ * and broadcast to all participants. Sessions live in memory only.
+ *
+ * Attach with `httpServer.on('upgrade', ...)` -> handleUpgrade().
+ */
+export function createLiveSessionHub({
+  emptySessionTtlMs = 10 * 60 * 1000,
+  maxEntries = 5000,
+  heartbeatMs = 30000,
+}: LiveSessionHubOptions = {}) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 64 * 1024 });
+  const sessions = new Map<string, LiveSession>();
+  const connections = new Map<WebSocket, Connection>();
+  let closed = false;
+
+  const send = (socket: WebSocket, message: LiveServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const broadcast = (session: LiveSession, message: LiveServerMessage, except?: WebSocket) => {
+    session.sockets.forEach(socket => {
+      if (socket !== except) send(socket, message);
+    });
+  };
+
+  // A client with several connections (reconnect overlap, two tabs of one id) is listed once
+  const participantsOf = (session: LiveSession): LiveParticipant[] => {
+    const byId = new Map<string, LiveParticipant>();
+    session.sockets.forEach(socket => {
+      const participant = connections.get(socket)?.participant;
+      if (participant) byId.set(participant.clientId, participant);
+    });
+    return [...byId.values()];
+  };
+
+  const newCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+    } while (sessions.has(code));
+    return code;
+  };
+
+  const leave = (socket: WebSocket) => {
+    const connection = connections.get(socket);
+    const session = connection?.session;
+    if (!connection || !session) return;
+    connection.session = null;
+    session.sockets.delete(socket);
+    broadcast(session, { type: 'participants', participants: participantsOf(session) });
+    // After close() the terminated sockets still leave; their sessions are gone with the hub
+    if (session.sockets.size === 0 && !closed) {
+      session.expiryTimer = setTimeout(() => {
+        if (session.sockets.size === 0) sessions.delete(session.code);
+      }, emptySessionTtlMs);
+    }
+  };
+
+  const join = (socket: WebSocket, session: LiveSession) => {
+    const connection = connections.get(socket)!;
+    if (connection.session !== session) leave(socket);
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = null;
+    }
+    connection.session = session;
+    session.sockets.add(socket);
+    const participants = participantsOf(session);
+    send(socket, { type: 'joined', code: session.code, participants, entries: [...session.entries.values()] });
+    broadcast(session, { type: 'participants', participants }, socket);
+  };
+
+  const recordScan = (session: LiveSession, participant: LiveParticipant, value: string): LiveSessionEntry | null => {
+    const now = Date.now();
+    let entry = session.entries.get(value);
+    if (!entry) {
+      if (session.entries.size >= maxEntries) return null;
+      entry = { value, firstScannedAt: now, lastScannedAt: now, scannedBy: [] };
+      session.entries.set(value, entry);
+    }
+    entry.lastScannedAt = now;
+    const scanner = entry.scannedBy.find(s => s.clientId === participant.clientId);
+    if (scanner) {
+      scanner.count++;
+      scanner.lastScannedAt = now;
+      scanner.name = participant.name;
+    } else {
+      entry.scannedBy.push({ ...participant, count: 1, lastScannedAt: now });
+    }
+    return entry;
+  };
+
+  const handleMessage = (socket: WebSocket, raw: string) => {
+    const connection = connections.get(socket)!;
+    const message = parseMessage(raw);
+    if (!message) {
+      send(socket, { type: 'error', reason: 'invalid-message' });
+      return;
+    }
+    switch (message.type) {
+      case 'create': {
+        connection.participant = { clientId: message.clientId, name: message.name };
+        const session: LiveSession = { code: newCode(), createdAt: Date.now(), sockets: new Set(), entries: new Map(), expiryTimer: null };
+        sessions.set(session.code, session);
+        console.log(`[Live Session] ${message.clientId} created ${session.code}`);
+        join(socket, session);
+        break;
+      }
+      case 'join': {
+        const session = sessions.get(message.code);
+        if (!session) {
+          send(socket, { type: 'error', reason: 'not-found' });
+          return;
+        }
+        connection.participant = { clientId: message.clientId, name: message.name };
+        join(socket, session);
+        break;
+      }
+      case 'scan': {
+        if (!connection.session) {
+          send(socket, { type: 'error', reason: 'not-joined' });
+          return;
+        }
+        const entry = recordScan(connection.session, connection.participant, message.value);
+        if (!entry) {
+          send(socket, { type: 'error', reason: 'session-full' });
+          return;
+        }
+        broadcast(connection.session, { type: 'entry', entry });
+        break;
+      }
+      case 'leave':
+        leave(socket);
+        send(socket, { type: 'left' });
+        break;
+    }
+  };
+
+  wss.on('connection', socket => {
+    connections.set(socket, { participant: { clientId: '', name: '' }, session: null, alive: true });
+    socket.on('pong', () => {
+      const connection = connections.get(socket);
+      if (connection) connection.alive = true;
+    });
+    socket.on('message', data => handleMessage(socket, data.toString()));
+    socket.on('close', () => {
+      leave(socket);
+      connections.delete(socket);
+    });
+  });
+
+  // Connections that missed the last ping are terminated (which runs the close handler)
+  const heartbeat = setInterval(() => {
+    connections.forEach((connection, socket) => {
+      if (!connection.alive) {
+        socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      socket.ping();
+    });
+  }, heartbeatMs);
+
+  return {
+    handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+      wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+    },
+
+    /** Open sessions, newest first (for the debug routes). */
+    sessions(): LiveSessionSummary[] {
+      return [...sessions.values()]
+        .map(session => ({ code: session.code, createdAt: session.createdAt, participants: participantsOf(session), entries: session.entries.size }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    close() {
+      closed = true;
+      clearInterval(heartbeat);
+      sessions.forEach(session => {
+        if (session.expiryTimer) clearTimeout(session.expiryTimer);
+      });
+      connections.forEach((_, socket) => socket.terminate());
+      wss.close();
+    },
+  };
+}
+
+export type LiveSessionHub = ReturnType<typeof createLiveSessionHub>
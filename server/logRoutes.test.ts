@@ -0,0 +1,112 @@
+// @vitest-environment node
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLogMiddleware } from './logRoutes';
+import { LogStore, createLogStore } from './logStore';
+import { createTelemetryAggregator } from './telemetry';
+import { TestServer, serveMiddleware } from './testServer';
+
+let dir: string;
+let logStore: LogStore;
+let server: TestServer;
+
+const post = (body: string) => fetch(server.url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  clientId: 'client_a',
+  timestamp: '2026-01-01T10:00:00.000Z',
+  source: 'Client',
+  level: 'INFO',
+  component: 'QRScanner',
+  message: 'Camera started',
+  dataString: ' {"deviceId":"rear"}',
+  ...overrides,
+});
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-routes-'));
+  logStore = createLogStore({ dir: path.join(dir, 'logs') });
+  const handler = createLogMiddleware({
+    logStore,
+    telemetry: createTelemetryAggregator(),
+    uploadDir: path.join(dir, 'uploads'),
+    onlineWindowMs: 60000,
+  });
+  server = await serveMiddleware('/log', handler);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('POST /log', () => {
+  it('stores a batch and prints each entry', async () => {
+    const res = await post(JSON.stringify([entry(), entry({ level: 'EROR', message: 'Failed', dataString: '' })]));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: 'logged', count: 2 });
+    expect(console.log).toHaveBeenCalledWith('[2026-01-01T10:00:00.000Z - client_a - INFO]: [Client - QRScanner] Camera started {"deviceId":"rear"}');
+    const stored = logStore.query({});
+    expect(stored).toHaveLength(2);
+    expect(stored[0]).toMatchObject({ clientId: 'client_a', clientTimestamp: '2026-01-01T10:00:00.000Z', data: { deviceId: 'rear' } });
+  });
+
+  it('accepts a single object and fills in missing fields', async () => {
+    const res = await post(JSON.stringify({ message: 'bare' }));
+
+    expect(await res.json()).toEqual({ status: 'logged', count: 1 });
+    expect(logStore.query({})[0]).toMatchObject({ clientId: 'UNKNOWN', source: 'Unknown', level: 'INFO', message: 'bare', data: null });
+  });
+
+  it.each([
+    ['invalid JSON', '{"clientId": ', 'Invalid JSON'],
+    ['an empty body', '', 'Invalid JSON'],
+    ['a bare string', '"hello"', 'Log entries must be objects'],
+    ['non-object entries', '[{"message":"ok"}, null, 3]', 'Log entries must be objects'],
+    ['nested arrays', '[[{"message":"ok"}]]', 'Log entries must be objects'],
+  ])('rejects %s with 400 and stores nothing', async (_, body, message) => {
+    const res = await post(body);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ status: 'error', message });
+    expect(logStore.query({})).toEqual([]);
+  });
+});
+
+describe('GET /log', () => {
+  it('queries stored entries with filters', async () => {
+    await post(JSON.stringify([entry(), entry({ clientId: 'client_b', level: 'WARN' })]));
+
+    const res = await fetch(`${server.url}/?clientId=client_b`);
+    const entries = await res.json();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ clientId: 'client_b', level: 'WARN' });
+  });
+
+  it('lists clients with online state and screenshot count', async () => {
+    await post(JSON.stringify([entry()]));
+
+    const clients = await (await fetch(`${server.url}/clients`)).json();
+    expect(clients).toEqual([expect.objectContaining({ clientId: 'client_a', entries: 1, online: true, screenshots: 0 })]);
+  });
+
+  it('aggregates telemetry entries per client', async () => {
+    const metrics = { attempts: 50, decodes: 2, errors: 1, avgDecodeMs: 4, maxDecodeMs: 9, timeToFirstScanMs: 800, windowMs: 10000 };
+    await post(JSON.stringify([
+      entry({ component: 'Telemetry', message: 'Scan telemetry', dataString: ` ${JSON.stringify({ final: true, metrics })}` }),
+    ]));
+
+    const summary = await (await fetch(`${server.url}/telemetry?clientId=client_a`)).json();
+    expect(summary).toEqual([expect.objectContaining({ clientId: 'client_a', attempts: 50, attemptsPerSecond: 5, medianTimeToFirstScanMs: 800 })]);
+  });
+
+  it('passes unknown paths and methods on', async () => {
+    expect((await fetch(`${server.url}/unknown`)).status).toBe(404);
+    expect((await fetch(server.url, { method: 'DELETE' })).status).toBe(404);
+  });
+});
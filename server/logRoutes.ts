@@ -0,0 +1,112 @@
+import type { Connect } from 'vite';
+import { LogStore, parseLogFilter, toStoredEntry } from './logStore';
+import { listScreenshots } from './screenshots';
+import { TelemetryAggregator } from './telemetry';
+
+export interface LogMiddlewareOptions {
+  logStore: LogStore;
+  telemetry: TelemetryAggregator;
+  /** Screenshot directory, for the per-client screenshot count in GET /log/clients. */
+  uploadDir: string;
+  /** Clients that logged within this window are reported as online. */
+  onlineWindowMs: number;
+}
+
+const isPayload = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Handler mounted at /log: POST accepts log batches from src/utils/remoteLog.ts, prints them
+ * and stores them; GET serves queries (/), the live tail (/stream), /clients and /telemetry.
+ */
+export function createLogMiddleware({ logStore, telemetry, uploadDir, onlineWindowMs }: LogMiddlewareOptions): Connect.NextHandleFunction {
+  return (req, res, next) => {
+    if (req.method === 'GET') {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const filter = parseLogFilter(url.searchParams);
+
+      // Live tail over Server-Sent Events
+      if (url.pathname === '/stream') {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        });
+        res.write(': connected\n\n');
+        const unsubscribe = logStore.subscribe(filter, entry => {
+          res.write(`data: ${JSON.stringify(entry)}\n\n`);
+        });
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+        req.on('close', () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        });
+        return;
+      }
+
+      if (url.pathname === '/clients') {
+        const now = Date.now();
+        const clients = logStore.clients().map(c => ({
+          ...c,
+          online: now - Date.parse(c.lastSeen) < onlineWindowMs,
+          screenshots: listScreenshots(uploadDir, c.clientId).length,
+        }));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(clients));
+        return;
+      }
+
+      if (url.pathname === '/telemetry') {
+        const summary = telemetry.summary().filter(t => !filter.clientId || t.clientId === filter.clientId);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(summary));
+        return;
+      }
+
+      if (url.pathname === '/') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(logStore.query(filter)));
+        return;
+      }
+      return next();
+    }
+
+    if (req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        try {
+          // Clients send batches (JSON array); a single object is accepted as well
+          const parsed = JSON.parse(body);
+          const logPayloads = Array.isArray(parsed) ? parsed : [parsed];
+          if (!logPayloads.every(isPayload)) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ status: 'error', message: 'Log entries must be objects' }));
+            return;
+          }
+          const entries = logPayloads.map(p => toStoredEntry(p));
+          logStore.append(entries);
+          entries.forEach(entry => telemetry.record(entry));
+          for (const logPayload of logPayloads) {
+            // Format the log message on the server using received structured data
+            const { clientId, source, level, component, message, dataString } = logPayload;
+            // Prefer the client timestamp (entries may arrive batched); fall back to receive time
+            const timestamp = logPayload.timestamp || new Date().toISOString();
+            // Format: "[Timestamp - Client id - Level]: [Source - Component] Message OptionalDataString"
+            const finalMessage = `[${timestamp} - ${clientId || 'UNKNOWN'} - ${level || 'INFO'}]: [${source || 'Unknown'} - ${component || 'Unknown'}] ${message || ''}${dataString || ''}`;
+            console.log(finalMessage); // Log the fully formatted string
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'logged', count: logPayloads.length }));
+        } catch (e) {
+          console.error('[Server Log] Error parsing log data:', e);
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'error', message: 'Invalid JSON' }));
+        }
+      });
+    } else {
+      next(); // Pass other requests along
+    }
+  };
+}
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+
+/** A client log entry as persisted by the dev server (one JSON object per NDJSON line). */
+export interface StoredLogEntry {
+  serverTimestamp: string;
+  clientTimestamp: string | null;
+  clientId: string;
+  source: string;
+  level: string;
+  component: string;
+  message: string;
+  data: unknown;
+}
+
+/** Query filters; all fields are optional and combined with AND. */
+export interface LogFilter {
+  clientId?: string;
+  source?: string;
+  /** One or more levels (exact match), e.g. ['WARN', 'EROR']. */
+  levels?: string[];
+  component?: string;
+  /** Inclusive lower bound (epoch ms) on the server timestamp. */
+  from?: number;
+  /** Inclusive upper bound (epoch ms) on the server timestamp. */
+  to?: number;
+  /** Return at most this many (newest) entries. */
+  limit?: number;
+}
+
+export interface ClientSummary {
+  clientId: string;
+  firstSeen: string;
+  lastSeen: string;
+  entries: number;
+  errors: number;
+}
+
+export interface LogStoreOptions {
+  dir: string;
+  /** Rotate the active file once it exceeds this size. */
+  maxBytes?: number;
+  /** Number of rotated files to keep besides the active one. */
+  maxFiles?: number;
+}
+
+const BASE_NAME = 'client-logs';
+
+/**
+ * Converts a payload received at POST /log into a stored entry.
+ * `dataString` arrives as " <json>" (see src/utils/remoteLog.ts); it is parsed back when possible.
+ */
+export function toStoredEntry(payload: Record<string, unknown>, receivedAt: Date = new Date()): StoredLogEntry {
+  const dataString = typeof payload.dataString === 'string' ? payload.dataString.trim() : '';
+  let data: unknown = null;
+  if (dataString) {
+    try {
+      data = JSON.parse(dataString);
+    } catch {
+      data = dataString;
+    }
+  }
+  const text = (value: unknown, fallback: string) => (typeof value === 'string' && value ? value : fallback);
+  return {
+    serverTimestamp: receivedAt.toISOString(),
+    clientTimestamp: typeof payload.timestamp === 'string' ? payload.timestamp : null,
+    clientId: text(payload.clientId, 'UNKNOWN'),
+    source: text(payload.source, 'Unknown'),
+    level: text(payload.level, 'INFO'),
+    component: text(payload.component, 'Unknown'),
+    message: typeof payload.message === 'string' ? payload.message : '',
+    data,
+  };
+}
+
+export function matchesFilter(entry: StoredLogEntry, filter: LogFilter): boolean {
+  if (filter.clientId && entry.clientId !== filter.clientId) return false;
+  if (filter.source && entry.source !== filter.source) return false;
+  if (filter.component && entry.component !== filter.component) return false;
+  if (filter.levels && filter.levels.length > 0 && !filter.levels.includes(entry.level)) return false;
+  if (filter.from !== undefined || filter.to !== undefined) {
+    const ts = Date.parse(entry.serverTimestamp);
+    if (filter.from !== undefined && ts < filter.from) return false;
+    if (filter.to !== undefined && ts > filter.to) return false;
+  }
+  return true;
+}
+
+// Helper: Accepts epoch milliseconds or any Date.parse-able string
+function parseTime(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const asNumber = Number(value);
+  const ts = Number.isFinite(asNumber) ? asNumber : Date.parse(value);
+  return Number.isNaN(ts) ? undefined : ts;
+}
+
+/**
+ * Builds a LogFilter from URL query parameters
+ * (clientId, source, level=WARN,EROR, component, from, to, limit).
+ */
+export function parseLogFilter(params: URLSearchParams): LogFilter {
+  const levels = params.getAll('level').flatMap(l => l.split(',')).map(l => l.trim()).filter(Boolean);
+  const limit = Number(params.get('limit'));
+  return {
+    clientId: params.get('clientId') || undefined,
+    source: params.get('source') || undefined,
+    component: params.get('component') || undefined,
+    levels: levels.length > 0 ? levels : undefined,
+    from: parseTime(params.get('from')),
+    to: parseTime(params.get('to')),
+    limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+  };
+}
+
+/**
+ * Append-only NDJSON log store with size-based rotation, filtered queries,
+ * live subscriptions and a per-client summary.
+ */
+export function createLogStore({ dir, maxBytes = 5 * 1024 * 1024, maxFiles = 5 }: LogStoreOptions) {
+  const activeFile = path.join(dir, `${BASE_NAME}.ndjson`);
+  const rotatedFile = (index: number) => path.join(dir, `${BASE_NAME}.${index}.ndjson`);
+  const subscribers = new Set<{ filter: LogFilter; listener: (entry: StoredLogEntry) => void }>();
+  const clients = new Map<string, ClientSummary>();
+
+  // Shift client-logs.ndjson -> .1 -> .2 ...; the oldest beyond maxFiles is deleted
+  const rotate = () => {
+    if (fs.existsSync(rotatedFile(maxFiles))) fs.unlinkSync(rotatedFile(maxFiles));
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(rotatedFile(i))) fs.renameSync(rotatedFile(i), rotatedFile(i + 1));
+    }
+    if (maxFiles > 0) {
+      fs.renameSync(activeFile, rotatedFile(1));
+    } else {
+      fs.unlinkSync(activeFile);
+    }
+  };
+
+  const trackClient = (entry: StoredLogEntry) => {
+    const summary = clients.get(entry.clientId);
+    const isError = entry.level === 'EROR' || entry.level === 'ERROR';
+    if (summary) {
+      summary.lastSeen = entry.serverTimestamp;
+      summary.entries += 1;
+      if (isError) summary.errors += 1;
+    } else {
+      clients.set(entry.clientId, {
+        clientId: entry.clientId,
+        firstSeen: entry.serverTimestamp,
+        lastSeen: entry.serverTimestamp,
+        entries: 1,
+        errors: isError ? 1 : 0,
+      });
+    }
+  };
+
+  // Oldest file first, so entries come out in chronological order
+  const readAll = (): StoredLogEntry[] => {
+    const files = [...Array.from({ length: maxFiles }, (_, i) => rotatedFile(maxFiles - i)), activeFile];
+    const entries: StoredLogEntry[] = [];
+    for (const file of files) {
+      if (!fs.existsSync(file)) continue;
+      for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // Skip a partially written line
+        }
+      }
+    }
+    return entries;
+  };
+
+  // Rebuild the client summary from what is already on disk
+  if (fs.existsSync(dir)) {
+    readAll().forEach(trackClient);
+  }
+
+  return {
+    append(entries: StoredLogEntry[]): void {
+      if (entries.length === 0) return;
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      if (fs.existsSync(activeFile) && fs.statSync(activeFile).size >= maxBytes) {
+        rotate();
+      }
+      fs.appendFileSync(activeFile, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+      for (const entry of entries) {
+        trackClient(entry);
+        subscribers.forEach(sub => {
+          if (matchesFilter(entry, sub.filter)) sub.listener(entry);
+        });
+      }
+    },
+
+    query(filter: LogFilter): StoredLogEntry[] {
+      const matching = readAll().filter(entry => matchesFilter(entry, filter));
+      return filter.limit ? matching.slice(-filter.limit) : matching;
+    },
+
+    /** @returns An unsubscribe function. */
+    subscribe(filter: LogFilter, listener: (entry: StoredLogEntry) => void): () => void {
+      const sub = { filter, listener };
+      subscribers.add(sub);
+      return () => {
+        subscribers.delete(sub);
+      };
+    },
+
+    clients(): ClientSummary[] {
+      return [...clients.values()].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+    },
+  };
+}
+
+export type LogStore = ReturnType<typeof createLogStore>
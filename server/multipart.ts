@@ -0,0 +1,49 @@
+export interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+/** Boundary from a `multipart/form-data; boundary=…` Content-Type, or null. */
+export function getMultipartBoundary(contentType: string): string | null {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? match[1] ?? match[2] : null;
+}
+
+/**
+ * Splits a buffered multipart/form-data body into its parts. Enough for browser FormData
+ * uploads (no nested multipart, no transfer encodings); throws on malformed bodies.
+ */
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  // The first delimiter may start the body without the leading CRLF
+  let position = body.indexOf(delimiter.subarray(2));
+  if (position < 0) throw new Error('Multipart boundary not found');
+  position += delimiter.length - 2;
+
+  while (body.subarray(position, position + 2).toString() !== '--') {
+    const end = body.indexOf(delimiter, position);
+    if (end < 0) throw new Error('Unterminated multipart body');
+    // Skip the CRLF after the delimiter line
+    const part = body.subarray(position + 2, end);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd < 0) throw new Error('Malformed multipart part');
+
+    const headers = part.subarray(0, headerEnd).toString('utf8');
+    const disposition = headers.match(/^content-disposition:(.*)$/im)?.[1] ?? '';
+    const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+    if (name !== undefined) {
+      parts.push({
+        name,
+        filename: disposition.match(/\bfilename="([^"]*)"/i)?.[1],
+        contentType: headers.match(/^content-type:\s*(.*)$/im)?.[1].trim(),
+        data: part.subarray(headerEnd + 4),
+      });
+    }
+    position = end + delimiter.length;
+  }
+  return parts;
+}
@@ -0,0 +1,236 @@
+// @vitest-environment node
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScreenshotMiddlewareOptions, createScreenshotUploadMiddleware, listScreenshots, pruneScreenshots } from './screenshots';
+import { TestServer, serveMiddleware } from './testServer';
+
+// 1×1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const PNG = Buffer.from(PNG_BASE64, 'base64');
+const GIF = Buffer.from('GIF89a\x01\x00\x01\x00\x00\x00\x00;', 'latin1');
+
+let dir: string;
+let server: TestServer;
+
+const upload = (body: unknown) => fetch(server.url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+const uploadRaw = (data: Buffer, query = '', contentType = 'image/png') =>
+  fetch(`${server.url}${query}`, { method: 'POST', headers: { 'Content-Type': contentType }, body: data });
+
+async function serve(options: Partial<ScreenshotMiddlewareOptions> = {}) {
+  await server?.close();
+  server = await serveMiddleware('/upload-screenshot', createScreenshotUploadMiddleware({ dir, ...options }));
+}
+
+// Writes a screenshot as an upload from `createdAt` would have, with `size` bytes
+function seed(createdAt: string, clientId: string, size = 10) {
+  const file = `${createdAt.replace(/:/g, '-')}__${clientId}__Client__App.png`;
+  fs.writeFileSync(path.join(dir, file), Buffer.alloc(size));
+  fs.writeFileSync(path.join(dir, file.replace(/\.png$/, '.json')), '{}');
+  return file;
+}
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'screenshots-'));
+  await serve();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('POST /upload-screenshot', () => {
+  it('saves a dataURL upload under a name listScreenshots() can read back', async () => {
+    const res = await upload({ clientId: 'client/a', source: 'Client', component: 'App', dataURL: `data:image/png;base64,${PNG_BASE64}` });
+
+    expect(res.status).toBe(200);
+    const { status, file } = await res.json();
+    expect(status).toBe('saved');
+    expect(fs.readFileSync(path.join(dir, file))).toEqual(PNG);
+    expect(listScreenshots(dir)).toEqual([
+      expect.objectContaining({ file, clientId: 'client_a', source: 'Client', component: 'App', size: 70, mime: 'image/png', note: null }),
+    ]);
+  });
+
+  it('always writes a metadata sidecar and trusts the file signature over the declared type', async () => {
+    const { file } = await (await upload({ clientId: 'c1', note: 'blurry', dataURL: `data:image/jpeg;base64,${PNG_BASE64}` })).json();
+    const { file: withoutNote } = await (await upload({ clientId: 'c1', dataURL: `data:image/png;base64,${PNG_BASE64}` })).json();
+
+    expect(file).toMatch(/__c1__Unknown__Unknown\.png$/);
+    const meta = JSON.parse(fs.readFileSync(path.join(dir, file.replace(/\.png$/, '.json')), 'utf8'));
+    expect(meta).toMatchObject({ file, clientId: 'c1', note: 'blurry', mime: 'image/png', size: 70 });
+    expect(Date.parse(meta.createdAt)).not.toBeNaN();
+    expect(fs.existsSync(path.join(dir, withoutNote.replace(/\.png$/, '.json')))).toBe(true);
+  });
+
+  it('accepts multipart/form-data with the image in a file part', async () => {
+    const form = new FormData();
+    form.set('clientId', 'c2');
+    form.set('component', 'Scanner');
+    form.set('note', 'from a form');
+    form.set('file', new Blob([PNG], { type: 'image/png' }), 'shot.png');
+
+    const res = await fetch(server.url, { method: 'POST', body: form });
+
+    expect(res.status).toBe(200);
+    const { file } = await res.json();
+    expect(fs.readFileSync(path.join(dir, file))).toEqual(PNG);
+    expect(listScreenshots(dir, 'c2')).toEqual([expect.objectContaining({ component: 'Scanner', note: 'from a form' })]);
+  });
+
+  it('accepts a raw image body with metadata in the query string', async () => {
+    const res = await uploadRaw(PNG, '?clientId=c3&source=Lib', 'application/octet-stream');
+
+    expect(res.status).toBe(200);
+    expect(listScreenshots(dir)).toEqual([expect.objectContaining({ clientId: 'c3', source: 'Lib', size: 70 })]);
+  });
+
+  it('rejects images above the size cap with 413', async () => {
+    await serve({ maxBytes: 64 });
+
+    const res = await uploadRaw(PNG);
+
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ status: 'error', message: 'Screenshot exceeds 64 bytes' });
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('rejects bodies far above the cap without buffering them', async () => {
+    await serve({ maxBytes: 64 });
+
+    const res = await uploadRaw(Buffer.alloc(200 * 1024));
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).message).toMatch(/^Upload exceeds \d+ bytes$/);
+  });
+
+  it('rejects types outside the allowlist with 415', async () => {
+    const gif = await uploadRaw(GIF, '', 'image/gif');
+    const svg = await uploadRaw(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'), '', 'image/svg+xml');
+
+    expect(gif.status).toBe(415);
+    expect(await gif.json()).toEqual({ status: 'error', message: 'Unsupported image type (allowed: image/png, image/jpeg, image/webp)' });
+    expect(svg.status).toBe(415);
+    expect(fs.readdirSync(dir)).toEqual([]);
+
+    await serve({ allowedTypes: ['image/gif'] });
+    const { file } = await (await uploadRaw(GIF, '', 'image/gif')).json();
+    expect(file).toMatch(/\.gif$/);
+  });
+
+  it.each([
+    ['invalid JSON', '{"dataURL": ', 'Invalid request body'],
+    ['a null body', 'null', 'Invalid request body'],
+    ['a missing dataURL', {}, 'dataURL (data:image/*;base64,...) required'],
+    ['a non-image dataURL', { dataURL: 'data:text/html;base64,PGgxPg==' }, 'dataURL (data:image/*;base64,...) required'],
+    ['a dataURL without payload', { dataURL: 'data:image/png' }, 'dataURL (data:image/*;base64,...) required'],
+  ])('rejects %s with 400 and writes nothing', async (_, body, message) => {
+    const res = await upload(body);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ status: 'error', message });
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it.each([
+    ['without a file part', 'multipart/form-data; boundary=x', '--x\r\nContent-Disposition: form-data; name="note"\r\n\r\nhi\r\n--x--\r\n', 'file part required'],
+    ['that is truncated', 'multipart/form-data; boundary=x', '--x\r\nContent-Disposition: form-data; name="file"\r\n\r\n', 'Invalid multipart body'],
+    ['without a boundary', 'multipart/form-data', '', 'Invalid multipart body'],
+  ])('rejects multipart bodies %s with 400', async (_, contentType, body, message) => {
+    const res = await fetch(server.url, { method: 'POST', headers: { 'Content-Type': contentType }, body });
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ status: 'error', message });
+  });
+
+  it('applies the retention policy after each upload', async () => {
+    await serve({ retention: { maxFiles: 2 } });
+    const oldest = seed('2020-01-01T00:00:00.000Z', 'c1');
+    seed('2020-01-02T00:00:00.000Z', 'c1');
+
+    await uploadRaw(PNG, '?clientId=c1');
+
+    const files = listScreenshots(dir).map(s => s.file);
+    expect(files).toHaveLength(2);
+    expect(files).not.toContain(oldest);
+    expect(fs.existsSync(path.join(dir, oldest.replace(/\.png$/, '.json')))).toBe(false);
+  });
+});
+
+describe('GET and DELETE /upload-screenshot', () => {
+  it('lists screenshots filtered by clientId and serves them with their type', async () => {
+    const { file } = await (await uploadRaw(PNG, '?clientId=c1')).json();
+    await uploadRaw(PNG, '?clientId=c2');
+
+    const list = await (await fetch(`${server.url}?clientId=c1`)).json();
+    expect(list).toEqual([expect.objectContaining({ file, clientId: 'c1' })]);
+    expect(await (await fetch(server.url)).json()).toHaveLength(2);
+
+    const image = await fetch(`${server.url}/${encodeURIComponent(file)}`);
+    expect(image.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await image.arrayBuffer())).toEqual(PNG);
+  });
+
+  it('answers 404 for unknown files, sidecars and paths outside the directory', async () => {
+    const { file } = await (await uploadRaw(PNG)).json();
+
+    expect((await fetch(`${server.url}/nope.png`)).status).toBe(404);
+    expect((await fetch(`${server.url}/${file.replace(/\.png$/, '.json')}`)).status).toBe(404);
+    expect((await fetch(`${server.url}/..%2Fpackage.json`)).status).toBe(404);
+  });
+
+  it('answers 400 for malformed escapes in the file name', async () => {
+    expect((await fetch(`${server.url}/%E0%A4%A`)).status).toBe(400);
+    expect((await fetch(`${server.url}/%E0%A4%A`, { method: 'DELETE' })).status).toBe(400);
+  });
+
+  it('deletes a single screenshot together with its sidecar', async () => {
+    const { file } = await (await uploadRaw(PNG)).json();
+
+    const res = await fetch(`${server.url}/${encodeURIComponent(file)}`, { method: 'DELETE' });
+
+    expect(await res.json()).toEqual({ status: 'deleted', files: [file] });
+    expect(fs.readdirSync(dir)).toEqual([]);
+    expect((await fetch(`${server.url}/${encodeURIComponent(file)}`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('deletes all screenshots of a client and requires the clientId', async () => {
+    await uploadRaw(PNG, '?clientId=c1');
+    await uploadRaw(PNG, '?clientId=c2');
+
+    expect((await fetch(server.url, { method: 'DELETE' })).status).toBe(400);
+    const { files } = await (await fetch(`${server.url}?clientId=c1`, { method: 'DELETE' })).json();
+
+    expect(files).toHaveLength(1);
+    expect(listScreenshots(dir).map(s => s.clientId)).toEqual(['c2']);
+  });
+
+  it('passes other methods on', async () => {
+    expect((await fetch(server.url, { method: 'PUT' })).status).toBe(404);
+  });
+});
+
+describe('pruneScreenshots', () => {
+  it('deletes by age, count and total size, keeping the newest', () => {
+    const now = Date.parse('2024-01-10T00:00:00.000Z');
+    const old = seed('2024-01-01T00:00:00.000Z', 'c1');
+    const mid = seed('2024-01-08T00:00:00.000Z', 'c1', 30);
+    const recent = seed('2024-01-09T00:00:00.000Z', 'c1', 30);
+
+    expect(pruneScreenshots(dir, {}, now)).toEqual([]);
+    expect(pruneScreenshots(dir, { maxAgeMs: 7 * 24 * 60 * 60 * 1000 }, now)).toEqual([old]);
+    expect(pruneScreenshots(dir, { maxTotalBytes: 50 }, now)).toEqual([mid]);
+    expect(listScreenshots(dir).map(s => s.file)).toEqual([recent]);
+    expect(pruneScreenshots(dir, { maxFiles: 0 }, now)).toEqual([recent]);
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,335 @@
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect } from 'vite';
+import { getMultipartBoundary, parseMultipart } from './multipart';
+
+export interface ScreenshotInfo {
+  file: string;
+  clientId: string;
+  source: string;
+  component: string;
+  createdAt: string;
+  size: number;
+  mime: string;
+  note: string | null;
+}
+
+/** Which screenshots are kept; unset limits don't apply. */
+export interface ScreenshotRetention {
+  /** Screenshots older than this are deleted. */
+  maxAgeMs?: number;
+  /** Only the newest N screenshots are kept. */
+  maxFiles?: number;
+  /** Oldest screenshots are deleted once the total exceeds this. */
+  maxTotalBytes?: number;
+}
+
+export interface ScreenshotMiddlewareOptions {
+  dir: string;
+  /** Largest accepted image (decoded size); bigger uploads get a 413. */
+  maxBytes?: number;
+  /** Image types accepted after sniffing the file signature; others get a 415. */
+  allowedTypes?: string[];
+  /** Applied after every upload. */
+  retention?: ScreenshotRetention;
+}
+
+export const DEFAULT_MAX_SCREENSHOT_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|gif)$/i;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// File signatures; the declared type of an upload is not trusted
+const SIGNATURES: Array<{ mime: string; matches: (data: Buffer) => boolean }> = [
+  { mime: 'image/png', matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mime: 'image/jpeg', matches: data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { mime: 'image/gif', matches: data => data.subarray(0, 4).toString('latin1') === 'GIF8' },
+  { mime: 'image/webp', matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP' },
+];
+
+/** Image type detected from the file signature, or null if it isn't a known image format. */
+export function sniffImageType(data: Buffer): string | null {
+  return SIGNATURES.find(signature => signature.matches(data))?.mime ?? null;
+}
+
+const safeSegment = (value: unknown, fallback: string) =>
+  (typeof value === 'string' && value ? value : fallback).replace(/[^a-zA-Z0-9_-]/g, '_');
+
+const sidecarOf = (file: string) => file.replace(IMAGE_EXTENSIONS, '.json');
+
+function readSidecar(dir: string, file: string): Record<string, unknown> {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, sidecarOf(file)), 'utf8'));
+  } catch {
+    // Uploads from before sidecars were always written
+    return {};
+  }
+}
+
+/**
+ * Lists screenshots saved by /upload-screenshot, newest first.
+ * Metadata is recovered from the file name (`<ts>__<clientId>__<source>__<component>.<ext>`) plus the .json sidecar.
+ */
+export function listScreenshots(dir: string, clientId?: string): ScreenshotInfo[] {
+  if (!fs.existsSync(dir)) return [];
+  const client = clientId ? safeSegment(clientId, '') : undefined;
+  return fs.readdirSync(dir)
+    .filter(file => IMAGE_EXTENSIONS.test(file))
+    .map(file => {
+      const [ts = '', clientPart = 'UNKNOWN', source = 'Unknown', component = 'Unknown'] = file.replace(IMAGE_EXTENSIONS, '').split('__');
+      // Timestamps were made file-safe by replacing ':' with '-'; restore the time part
+      const createdAt = ts.replace(/T(\d{2})-(\d{2})-(\d{2})/, 'T$1:$2:$3');
+      const meta = readSidecar(dir, file);
+      const ext = path.extname(file).substring(1).toLowerCase();
+      return {
+        file,
+        clientId: clientPart,
+        source,
+        component,
+        createdAt,
+        size: fs.statSync(path.join(dir, file)).size,
+        mime: typeof meta.mime === 'string' ? meta.mime : ext === 'jpg' ? 'image/jpeg' : `image/${ext}`,
+        note: typeof meta.note === 'string' && meta.note ? meta.note : null,
+      };
+    })
+    .filter(info => !client || info.clientId === client)
+    .sort((a, b) => b.file.localeCompare(a.file));
+}
+
+/** Deletes a screenshot and its sidecar; false if there was no such screenshot. */
+export function deleteScreenshot(dir: string, file: string): boolean {
+  // basename() prevents path traversal out of the upload directory
+  const name = path.basename(file);
+  const filepath = path.join(dir, name);
+  if (!IMAGE_EXTENSIONS.test(name) || !fs.existsSync(filepath)) return false;
+  fs.rmSync(filepath);
+  fs.rmSync(path.join(dir, sidecarOf(name)), { force: true });
+  return true;
+}
+
+/**
+ * Deletes screenshots the retention policy no longer keeps. Returns the deleted file names.
+ */
+export function pruneScreenshots(dir: string, { maxAgeMs, maxFiles, maxTotalBytes }: ScreenshotRetention, now = Date.now()): string[] {
+  let totalBytes = 0;
+  const expired = listScreenshots(dir).filter((shot, index) => {
+    totalBytes += shot.size;
+    const created = Date.parse(shot.createdAt);
+    return (maxAgeMs !== undefined && !Number.isNaN(created) && now - created > maxAgeMs)
+      || (maxFiles !== undefined && index >= maxFiles)
+      || (maxTotalBytes !== undefined && totalBytes > maxTotalBytes);
+  });
+  expired.forEach(shot => deleteScreenshot(dir, shot.file));
+  return expired.map(shot => shot.file);
+}
+
+interface ScreenshotUpload {
+  data: Buffer;
+  fields: Record<string, string | undefined>;
+}
+
+class UploadError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Buffers the body up to `limit` bytes; the rest is drained and dropped
+function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    req.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received <= limit) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (received > limit) reject(new UploadError(413, `Upload exceeds ${limit} bytes`));
+      else resolve(Buffer.concat(chunks));
+    });
+    req.on('error', reject);
+  });
+}
+
+// JSON `{ clientId, source, component, note, dataURL }`: the original format, still used by the debug screenshot button
+function parseJsonUpload(body: Buffer): ScreenshotUpload {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.toString('utf8') || '{}');
+  } catch {
+    throw new UploadError(400, 'Invalid request body');
+  }
+  if (typeof payload !== 'object' || payload === null) throw new UploadError(400, 'Invalid request body');
+  const { dataURL, ...fields } = payload as Record<string, unknown>;
+  if (typeof dataURL !== 'string' || !dataURL.startsWith('data:image/') || !dataURL.includes(',')) {
+    throw new UploadError(400, 'dataURL (data:image/*;base64,...) required');
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return {
+    data: Buffer.from(dataURL.substring(dataURL.indexOf(',') + 1), 'base64'),
+    fields: { clientId: text(fields.clientId), source: text(fields.source), component: text(fields.component), note: text(fields.note) },
+  };
+}
+
+// multipart/form-data with text fields and the image in a `file` (or any file) part
+function parseMultipartUpload(body: Buffer, boundary: string): ScreenshotUpload {
+  let parts;
+  try {
+    parts = parseMultipart(body, boundary);
+  } catch {
+    throw new UploadError(400, 'Invalid multipart body');
+  }
+  const file = parts.find(part => part.name === 'file') ?? parts.find(part => part.filename !== undefined);
+  if (!file) throw new UploadError(400, 'file part required');
+  const fields: Record<string, string> = {};
+  parts.filter(part => part !== file).forEach(part => {
+    fields[part.name] = part.data.toString('utf8');
+  });
+  return { data: file.data, fields };
+}
+
+function parseUpload(req: IncomingMessage, body: Buffer): ScreenshotUpload {
+  const contentType = (req.headers['content-type'] || '').toLowerCase();
+  if (contentType.startsWith('multipart/form-data')) {
+    const boundary = getMultipartBoundary(req.headers['content-type'] || '');
+    if (!boundary) throw new UploadError(400, 'Invalid multipart body');
+    return parseMultipartUpload(body, boundary);
+  }
+  // Raw image bytes; metadata comes from the query string
+  if (contentType.startsWith('image/') || contentType.startsWith('application/octet-stream')) {
+    const params = new URL(req.url || '/', 'http://localhost').searchParams;
+    return { data: body, fields: Object.fromEntries(params) };
+  }
+  return parseJsonUpload(body);
+}
+
+/**
+ * Handler mounted at /upload-screenshot:
+ * - `POST /` saves an image sent as JSON dataURL, multipart/form-data or raw image body
+ *   (metadata `clientId`, `source`, `component`, `note` as fields or query parameters),
+ *   together with a .json sidecar, then applies the retention policy
+ * - `GET /?clientId=…` lists screenshots, `GET /<file>` serves one
+ * - `DELETE /<file>` deletes one, `DELETE /?clientId=…` all of a client
+ */
+export function createScreenshotUploadMiddleware({
+  dir,
+  maxBytes = DEFAULT_MAX_SCREENSHOT_BYTES,
+  allowedTypes = DEFAULT_ALLOWED_IMAGE_TYPES,
+  retention = {},
+}: ScreenshotMiddlewareOptions): Connect.NextHandleFunction {
+  // Room for base64 (4/3) and the JSON or multipart wrapping
+  const bodyLimit = Math.ceil(maxBytes * 4 / 3) + 64 * 1024;
+
+  async function upload(req: IncomingMessage, res: ServerResponse) {
+    const { data, fields } = parseUpload(req, await readBody(req, bodyLimit));
+    if (data.length > maxBytes) throw new UploadError(413, `Screenshot exceeds ${maxBytes} bytes`);
+    const mime = sniffImageType(data);
+    if (!mime || !allowedTypes.includes(mime)) {
+      throw new UploadError(415, `Unsupported image type (allowed: ${allowedTypes.join(', ')})`);
+    }
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // Build filename with timestamp and client info
+    const createdAt = new Date().toISOString();
+    const ts = createdAt.replace(/[:]/g, '-');
+    const baseName = `${ts}__${safeSegment(fields.clientId, 'UNKNOWN')}__${safeSegment(fields.source, 'Unknown')}__${safeSegment(fields.component, 'Unknown')}`;
+    const filename = `${baseName}.${EXTENSIONS[mime] ?? 'img'}`;
+    fs.writeFileSync(path.join(dir, filename), data);
+
+    const meta = {
+      file: filename,
+      clientId: fields.clientId ?? null,
+      source: fields.source ?? null,
+      component: fields.component ?? null,
+      note: fields.note || null,
+      mime,
+      size: data.length,
+      createdAt,
+      userAgent: req.headers['user-agent'] ?? null,
+    };
+    fs.writeFileSync(path.join(dir, `${baseName}.json`), JSON.stringify(meta, null, 2));
+
+    const pruned = pruneScreenshots(dir, retention);
+    if (pruned.length) console.log(`[Upload Screenshot] Retention removed ${pruned.length} screenshot(s)`);
+
+    sendJson(res, 200, { status: 'saved', file: filename, dir });
+  }
+
+  return (req, res, next) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    let file: string;
+    try {
+      file = decodeURIComponent(url.pathname.substring(1));
+    } catch {
+      sendJson(res, 400, { status: 'error', message: 'Malformed file name' });
+      return;
+    }
+    const clientId = url.searchParams.get('clientId') || undefined;
+
+    if (req.method === 'POST' && !file) {
+      upload(req, res).catch(err => {
+        if (err instanceof UploadError) {
+          sendJson(res, err.status, { status: 'error', message: err.message });
+          return;
+        }
+        console.error('[Upload Screenshot] Error:', err);
+        sendJson(res, 500, { status: 'error', message: 'Failed to store screenshot' });
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && !file) {
+      sendJson(res, 200, listScreenshots(dir, clientId));
+      return;
+    }
+
+    if (req.method === 'GET') {
+      const shot = listScreenshots(dir).find(s => s.file === file);
+      if (!shot) {
+        sendJson(res, 404, { status: 'error', message: 'Not found' });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': shot.mime, 'X-Content-Type-Options': 'nosniff' });
+      fs.createReadStream(path.join(dir, shot.file)).pipe(res);
+      return;
+    }
+
+    if (req.method === 'DELETE' && file) {
+      if (!deleteScreenshot(dir, file)) {
+        sendJson(res, 404, { status: 'error', message: 'Not found' });
+        return;
+      }
+      sendJson(res, 200, { status: 'deleted', files: [file] });
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      if (!clientId) {
+        sendJson(res, 400, { status: 'error', message: 'clientId required' });
+        return;
+      }
+      const files = listScreenshots(dir, clientId).map(s => s.file);
+      files.forEach(f => deleteScreenshot(dir, f));
+      sendJson(res, 200, { status: 'deleted', files });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,128 @@
+import { StoredLogEntry } from './logStore';
+
+/** Per-client aggregate of the "Scan telemetry" entries (see src/hooks/useScanTelemetry.ts). */
+export interface ClientTelemetry {
+  clientId: string;
+  reports: number;
+  lastReportAt: string;
+  /** Track diagnostics from the latest report. */
+  lastTrack: unknown;
+  attempts: number;
+  decodes: number;
+  errors: number;
+  /** Attempts per second over all reported windows. */
+  attemptsPerSecond: number;
+  /** Attempt-weighted mean time per decode (ms). */
+  avgDecodeMs: number;
+  maxDecodeMs: number;
+  errorRate: number;
+  /** Median time to first scan over finished scan runs (ms). */
+  medianTimeToFirstScanMs: number | null;
+  lastTimeToFirstScanMs: number | null;
+}
+
+interface TelemetryMetrics {
+  attempts?: number;
+  decodes?: number;
+  errors?: number;
+  avgDecodeMs?: number;
+  maxDecodeMs?: number;
+  timeToFirstScanMs?: number | null;
+  windowMs?: number;
+}
+
+interface ClientState {
+  reports: number;
+  lastReportAt: string;
+  lastTrack: unknown;
+  attempts: number;
+  decodes: number;
+  errors: number;
+  decodeMs: number;
+  windowMs: number;
+  maxDecodeMs: number;
+  timesToFirstScan: number[];
+  lastTimeToFirstScanMs: number | null;
+}
+
+// Bound per-client memory for long-running dev servers
+const MAX_TTFS_SAMPLES = 200;
+
+// Message may carry a "(+n suppressed)" suffix from the client rate limiter
+export const isTelemetryEntry = (entry: StoredLogEntry): boolean =>
+  entry.component === 'Telemetry' && entry.message.startsWith('Scan telemetry');
+
+const num = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * In-memory aggregation of telemetry entries per clientId.
+ */
+export function createTelemetryAggregator() {
+  const clients = new Map<string, ClientState>();
+
+  return {
+    /** Adds an entry; entries that aren't telemetry are ignored. */
+    record(entry: StoredLogEntry): void {
+      if (!isTelemetryEntry(entry) || typeof entry.data !== 'object' || entry.data === null) return;
+      const data = entry.data as { final?: boolean; track?: unknown; metrics?: TelemetryMetrics };
+      const metrics = data.metrics ?? {};
+      let state = clients.get(entry.clientId);
+      if (!state) {
+        state = {
+          reports: 0, lastReportAt: entry.serverTimestamp, lastTrack: null,
+          attempts: 0, decodes: 0, errors: 0, decodeMs: 0, windowMs: 0, maxDecodeMs: 0,
+          timesToFirstScan: [], lastTimeToFirstScanMs: null,
+        };
+        clients.set(entry.clientId, state);
+      }
+      state.reports += 1;
+      state.lastReportAt = entry.clientTimestamp ?? entry.serverTimestamp;
+      state.lastTrack = data.track ?? state.lastTrack;
+      state.attempts += num(metrics.attempts);
+      state.decodes += num(metrics.decodes);
+      state.errors += num(metrics.errors);
+      state.decodeMs += num(metrics.avgDecodeMs) * num(metrics.attempts);
+      state.windowMs += num(metrics.windowMs);
+      state.maxDecodeMs = Math.max(state.maxDecodeMs, num(metrics.maxDecodeMs));
+      if (typeof metrics.timeToFirstScanMs === 'number') {
+        state.lastTimeToFirstScanMs = metrics.timeToFirstScanMs;
+        // Every report of a run repeats its value; count it once, from the final report
+        if (data.final) {
+          state.timesToFirstScan.push(metrics.timeToFirstScanMs);
+          state.timesToFirstScan.splice(0, state.timesToFirstScan.length - MAX_TTFS_SAMPLES);
+        }
+      }
+    },
+
+    /** Aggregates per client, most recently reporting first. */
+    summary(): ClientTelemetry[] {
+      return [...clients.entries()]
+        .map(([clientId, s]) => ({
+          clientId,
+          reports: s.reports,
+          lastReportAt: s.lastReportAt,
+          lastTrack: s.lastTrack,
+          attempts: s.attempts,
+          decodes: s.decodes,
+          errors: s.errors,
+          attemptsPerSecond: s.windowMs > 0 ? round1((s.attempts * 1000) / s.windowMs) : 0,
+          avgDecodeMs: s.attempts > 0 ? round1(s.decodeMs / s.attempts) : 0,
+          maxDecodeMs: s.maxDecodeMs,
+          errorRate: s.attempts > 0 ? Math.round((s.errors / s.attempts) * 1000) / 1000 : 0,
+          medianTimeToFirstScanMs: median(s.timesToFirstScan),
+          lastTimeToFirstScanMs: s.lastTimeToFirstScanMs,
+        }))
+        .sort((a, b) => b.lastReportAt.localeCompare(a.lastReportAt));
+    },
+  };
+}
+
+export type TelemetryAggregator = ReturnType<typeof createTelemetryAggregator>;
@@ -0,0 +1,31 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Connect } from 'vite';
+
+export interface TestServer {
+  /** Base URL of the mounted handler, e.g. http://127.0.0.1:1234/log */
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serves a single middleware on a random local port, mounted like `server.middlewares.use(mount, handler)`:
+ * the mount path is stripped from req.url, and requests the handler passes on get a 404.
+ */
+export async function serveMiddleware(mount: string, handler: Connect.NextHandleFunction): Promise<TestServer> {
+  const server = http.createServer((req, res) => {
+    const notFound = () => {
+      res.writeHead(404);
+      res.end();
+    };
+    if (!req.url?.startsWith(mount)) return notFound();
+    req.url = req.url.substring(mount.length) || '/';
+    handler(req as Connect.IncomingMessage, res, notFound);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}${mount}`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -1,16 +1,254 @@
-import QRScanner from './components/QRScanner';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DebugScreenshotButton } from 'remote-debug-screenshot';
+import QRScanner, { ActiveDevice, ScanResultEvent, ScannerState, ScannerStatusDetail } from './components/QRScanner';
+import OutboxIndicator from './components/OutboxIndicator';
+import ScanHistory from './components/ScanHistory';
+import PayloadView from './components/PayloadView';
+import ScanVerdict from './components/ScanVerdict';
+import InventoryPanel from './components/InventoryPanel';
+import ImageDecodeInput from './components/ImageDecodeInput';
+import SettingsDialog from './components/SettingsDialog';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import LiveSessionPanel from './components/LiveSessionPanel';
+import { useScanHistory } from './hooks/useScanHistory';
+import { useInventory } from './hooks/useInventory';
+import { useSettings } from './hooks/useSettings';
+import { useScanFeedback } from './hooks/useScanFeedback';
+import { useWebhooks } from './hooks/useWebhooks';
+import { useKeyboardWedge } from './hooks/useKeyboardWedge';
+import { useLiveSession } from './hooks/useLiveSession';
+import { parsePayload } from './payloads';
+import { I18nContext, createI18n, resolveLocale } from './i18n';
+import { LogLevel, getClientId, registerSensitiveValue, remoteLog } from './utils/remoteLog';
+import { parseJoinCode } from './utils/liveSession';
+import { ScanSource, createDeduplicator } from './utils/scanHistory';
+import { describeScannerStatus } from './utils/scannerMachine';
+import { ValidationResult, validateScan } from './utils/validation';
 import './App.css';
 
 function App() {
+  const [scanResult, setScanResult] = useState<string | null>(null);
+  // Accept/reject verdict for scanResult
+  const [verdict, setVerdict] = useState<ValidationResult | null>(null);
+  const [isInventoryMode, setIsInventoryMode] = useState<boolean>(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  // Mirrors isInventoryMode for result callbacks held by the running scanner
+  const inventoryModeRef = useRef<boolean>(false);
+
+  // Persisted preferences (camera, auto-start, cooldown, stopOnScan, feedback)
+  const { settings, updateSettings, resetSettings } = useSettings();
+
+  // UI language: provided to all components below, used directly for App's own texts
+  const i18n = useMemo(() => createI18n(resolveLocale(settings.language)), [settings.language]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+  }, [i18n.locale]);
+
+  // Beep/vibration/flash per outcome
+  const { signal, flash } = useScanFeedback(settings.feedback);
+
+  // Persistent scan history (IndexedDB) with duplicate suppression
+  const { scans, recordScan, removeScan, clearHistory } = useScanHistory(settings.cooldownMs);
+
+  // Forwarding of accepted scans to the configured endpoints
+  const { deliveries, forward } = useWebhooks(settings.webhooks);
+
+  // Inventory counting session (batch mode)
+  const inventory = useInventory();
+  const { addCode } = inventory;
+
+  // Live session shared with other devices (merged list of everyone's scans)
+  const liveSession = useLiveSession(settings.liveSessionName);
+  const { join: joinLiveSession, share: shareLiveScan } = liveSession;
+
+  useEffect(() => {
+    inventoryModeRef.current = isInventoryMode;
+  }, [isInventoryMode]);
+
+  // Classify the latest result (URL, Wi-Fi, vCard, payment, GS1, ...)
+  const parsedResult = useMemo(() => (scanResult ? parsePayload(scanResult) : null), [scanResult]);
+
+  // Rejected codes are not recorded, so repeats are filtered here (same window as the history)
+  const isNewRejection = useMemo(() => createDeduplicator(settings.cooldownMs), [settings.cooldownMs]);
+
+  // Shared result handling for all input paths (live camera, still images)
+  const processResult = useCallback((result: string, source: ScanSource, deviceId: string) => {
+    // A scanned session QR code joins the session instead of being recorded
+    const liveCode = parseJoinCode(result);
+    if (liveCode) {
+      joinLiveSession(liveCode);
+      return;
+    }
+    registerSensitiveValue('scanPayload', result);
+    const validation = validateScan(result, settings.validationRules);
+    if (!validation.accepted) {
+      // Rejected results stay out of history and inventory
+      if (!isNewRejection(result)) return;
+      signal('rejected', result);
+      setScanResult(result);
+      setVerdict(validation);
+      remoteLog('Client', LogLevel.WARN, 'Validation', 'Scan rejected', { value: result, source, failures: validation.failures });
+      return;
+    }
+    setScanResult(result);
+    setVerdict(validation);
+    const record = recordScan(result, deviceId, source);
+    signal(record ? 'new' : 'duplicate', result);
+    if (!record) return;
+    if (validation.rule) {
+      remoteLog('Client', LogLevel.INFO, 'Validation', 'Scan accepted', { value: result, source, rule: validation.rule });
+    }
+    forward(record);
+    shareLiveScan(result);
+    // Count each non-duplicate read as one unit while in inventory mode
+    if (inventoryModeRef.current) {
+      addCode(result);
+    }
+  }, [recordScan, addCode, settings.validationRules, isNewRejection, signal, forward, joinLiveSession, shareLiveScan]);
+
+  const handleResult = useCallback((result: ScanResultEvent) => {
+    processResult(result.value, 'camera', result.deviceId);
+  }, [processResult]);
+
+  const handleImageCodes = useCallback((codes: string[]) => {
+    codes.forEach(code => processResult(code, 'image', ''));
+  }, [processResult]);
+
+  // Handheld keyboard-wedge scanners feed the same result path as the camera
+  const handleHidCode = useCallback((code: string) => {
+    processResult(code, 'hid', '');
+  }, [processResult]);
+
+  useKeyboardWedge(settings.keyboardWedge, handleHidCode);
+
+  // Remember the camera; the label helps to find it again if the browser rotates IDs
+  const handleDeviceChange = useCallback((device: ActiveDevice) => {
+    updateSettings({ lastDeviceId: device.deviceId, lastDeviceLabel: device.label });
+  }, [updateSettings]);
+
+  const clearResult = useCallback(() => {
+    setScanResult(null);
+    setVerdict(null);
+  }, []);
+
+  const handleStateChange = useCallback((state: ScannerState) => {
+    // A new scan run starts without the previous result
+    if (state === 'starting') clearResult();
+  }, [clearResult]);
+
+  const renderStatus = (state: ScannerState, error: string | null, detail: ScannerStatusDetail) => {
+    const status = describeScannerStatus(state, detail.pauseReason);
+    return (
+      <>
+        {error && <p style={{ color: 'red' }}>{t('status.error', { message: error })}</p>}
+        {status && <p>{t(status)}</p>}
+        {verdict && (verdict.rule || !verdict.accepted) && <ScanVerdict result={verdict} />}
+        {parsedResult && <PayloadView key={parsedResult.raw} payload={parsedResult} />}
+        {state === 'scanning' && !scanResult && <p>{t('status.scanning')}</p>}
+      </>
+    );
+  };
+
   return (
-    <div className="App">
-      <header className="App-header">
-        <h1>QR Code Scanner Application</h1>
-      </header>
-      <main>
-        <QRScanner />
-      </main>
-    </div>
+    <I18nContext.Provider value={i18n}>
+      <div className="App">
+        <header className="App-header">
+          <h1>{t('app.title')}</h1>
+          <LanguageSwitcher value={settings.language} onChange={language => updateSettings({ language })} />
+          <OutboxIndicator />
+        </header>
+        <main>
+          <QRScanner
+            header={<h2>{t('app.scannerHeading')}</h2>}
+            initialDeviceId={settings.lastDeviceId}
+            initialDeviceLabel={settings.lastDeviceLabel}
+            autoStart={settings.autoStart}
+            mode={settings.stopOnScan ? 'single' : 'continuous'}
+            showDiagnostics
+            onResult={handleResult}
+            onError={clearResult}
+            onStateChange={handleStateChange}
+            onDeviceChange={handleDeviceChange}
+            renderStatus={renderStatus}
+            overlay={flash && <div key={flash.id} className={`scan-flash ${flash.kind}`} />}
+            toolbar={
+              <>
+                <button
+                  onClick={() => updateSettings({ feedback: { ...settings.feedback, muted: !settings.feedback.muted } })}
+                  aria-label={t(settings.feedback.muted ? 'app.unmuteFeedback' : 'app.muteFeedback')}
+                  aria-pressed={settings.feedback.muted}
+                  title={t(settings.feedback.muted ? 'app.unmuteFeedback' : 'app.muteFeedback')}
+                  className="icon-button secondary"
+                >
+                  {settings.feedback.muted ? '🔕' : '🔔'}
+                </button>
+                <button
+                  onClick={() => setIsSettingsOpen(true)}
+                  aria-label={t('app.settings')}
+                  title={t('app.settings')}
+                  className="icon-button secondary"
+                >
+                  ⚙
+                </button>
+                <label className="mode-toggle">
+                  <input
+                    type="checkbox"
+                    checked={isInventoryMode}
+                    onChange={e => setIsInventoryMode(e.target.checked)}
+                  />
+                  {t('app.inventoryMode')}
+                </label>
+              </>
+            }
+          >
+            {/* Still images: file picker, paste and drag-and-drop */}
+            <ImageDecodeInput onCodes={handleImageCodes} />
+
+            {isInventoryMode && (
+              <InventoryPanel
+                sessionId={inventory.sessionId}
+                lines={inventory.lines}
+                isSubmitting={inventory.isSubmitting}
+                onQuantityChange={inventory.setQuantity}
+                onRemove={inventory.removeLine}
+                onReset={inventory.resetSession}
+                onSubmit={inventory.submitSession}
+              />
+            )}
+
+            <LiveSessionPanel
+              session={liveSession}
+              clientId={getClientId()}
+              name={settings.liveSessionName}
+              onNameChange={liveSessionName => updateSettings({ liveSessionName })}
+              onCreate={liveSession.create}
+              onJoin={liveSession.join}
+              onLeave={liveSession.leave}
+            />
+
+            <ScanHistory
+              scans={scans}
+              onDelete={id => void removeScan(id)}
+              onClear={() => void clearHistory()}
+              deliveries={deliveries}
+            />
+          </QRScanner>
+
+          <SettingsDialog
+            open={isSettingsOpen}
+            settings={settings}
+            onChange={updateSettings}
+            onReset={resetSettings}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+
+          {/* Floating debug screenshot button from library */}
+          <DebugScreenshotButton source="qr-scanner-client" componentName="DebugScreenshot" />
+        </main>
+      </div>
+    </I18nContext.Provider>
   );
 }
 
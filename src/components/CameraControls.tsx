@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { remoteLog } from '../utils/remoteLog';
+import { useI18n } from '../hooks/useI18n';
+import {
+  CameraSettings,
+  applyCameraSettings,
+  getTrackCapabilities,
+  loadCameraSettings,
+  saveCameraSettings,
+  supportedFrameRates,
+  supportedResolutions,
+} from '../utils/cameraControls';
+
+interface CameraControlsProps {
+  /** The active video track, or null while not scanning. */
+  track: MediaStreamTrack | null;
+}
+
+/**
+ * Torch, zoom, focus, resolution and frame-rate controls for the active track.
+ * Only controls reported by getCapabilities() are shown; settings are remembered per device.
+ */
+const CameraControls: React.FC<CameraControlsProps> = ({ track }) => {
+  const [settings, setSettings] = useState<CameraSettings>({});
+  const [error, setError] = useState<string | null>(null);
+  // Constraints the track was started with; cleared settings ("Default") fall back to them
+  const baseConstraintsRef = useRef<MediaTrackConstraints>({});
+  const { t } = useI18n();
+
+  const capabilities = useMemo(() => (track ? getTrackCapabilities(track) : {}), [track]);
+  const resolutions = useMemo(() => supportedResolutions(capabilities), [capabilities]);
+  const frameRates = useMemo(() => supportedFrameRates(capabilities), [capabilities]);
+  // The actual deviceId of the track (the selection may be '' for the default camera)
+  const deviceKey = track?.getSettings().deviceId ?? '';
+
+  // Restore the remembered settings whenever a new track starts
+  useEffect(() => {
+    if (!track) return;
+    // Image-capture settings (advanced) are ours to set
+    const base = { ...track.getConstraints() };
+    delete base.advanced;
+    baseConstraintsRef.current = base;
+    const stored = loadCameraSettings(deviceKey);
+    setSettings(stored);
+    setError(null);
+    if (Object.keys(stored).length === 0) return;
+    applyCameraSettings(track, stored, base).catch(err => {
+      remoteLog('Client', LogLevel.WARN, 'CameraControls', 'Failed to restore camera settings', err instanceof Error ? err.message : String(err));
+    });
+  }, [track, deviceKey]);
+
+  if (!track) return null;
+
+  const update = async (changes: CameraSettings) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveCameraSettings(deviceKey, next);
+    try {
+      await applyCameraSettings(track, next, baseConstraintsRef.current);
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      remoteLog('Client', LogLevel.WARN, 'CameraControls', `applyConstraints failed for ${JSON.stringify(changes)}`, message);
+      setError(t('cameraControls.rejected', { reason: message }));
+    }
+  };
+
+  const { zoom, torch, focusMode } = capabilities;
+  const hasAnyControl = torch || zoom?.max !== undefined || (focusMode?.length ?? 0) > 1 || resolutions.length > 0 || frameRates.length > 0;
+  if (!hasAnyControl) return null;
+
+  return (
+    <div className="camera-controls">
+      {torch && (
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.torch ?? false}
+            onChange={e => void update({ torch: e.target.checked })}
+          />
+          {t('cameraControls.torch')}
+        </label>
+      )}
+      {zoom?.max !== undefined && (
+        <label>
+          {t('cameraControls.zoom')}
+          <input
+            type="range"
+            min={zoom.min ?? 1}
+            max={zoom.max}
+            step={zoom.step ?? 0.1}
+            value={settings.zoom ?? zoom.min ?? 1}
+            onChange={e => void update({ zoom: Number(e.target.value) })}
+          />
+        </label>
+      )}
+      {focusMode && focusMode.length > 1 && (
+        <label>
+          {t('cameraControls.focus')}
+          <select value={settings.focusMode ?? ''} onChange={e => void update({ focusMode: e.target.value || undefined })}>
+            <option value="">{t('cameraControls.default')}</option>
+            {focusMode.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+          </select>
+        </label>
+      )}
+      {resolutions.length > 0 && (
+        <label>
+          {t('cameraControls.resolution')}
+          <select value={settings.resolution ?? ''} onChange={e => void update({ resolution: e.target.value || undefined })}>
+            <option value="">{t('cameraControls.default')}</option>
+            {resolutions.map(res => <option key={res} value={res}>{res}</option>)}
+          </select>
+        </label>
+      )}
+      {frameRates.length > 0 && (
+        <label>
+          {t('cameraControls.frameRate')}
+          <select
+            value={settings.frameRate ?? ''}
+            onChange={e => void update({ frameRate: e.target.value ? Number(e.target.value) : undefined })}
+          >
+            <option value="">{t('cameraControls.default')}</option>
+            {frameRates.map(rate => <option key={rate} value={rate}>{rate}</option>)}
+          </select>
+        </label>
+      )}
+      {error && <small className="camera-controls-error">{error}</small>}
+    </div>
+  );
+};
+
+export default CameraControls;
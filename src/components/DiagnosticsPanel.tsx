@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ScanMetrics,
+  ScanStats,
+  ScanStatsSnapshot,
+  TrackDiagnostics,
+  computeScanMetrics,
+  describeTrack,
+  snapshotStats,
+} from '../utils/scanMetrics';
+import { useI18n } from '../hooks/useI18n';
+
+interface DiagnosticsPanelProps {
+  track: MediaStreamTrack | null;
+  getStats: () => ScanStats | null;
+  devices: MediaDeviceInfo[];
+  selectedDeviceId: string;
+}
+
+// Rates are measured over this rolling window
+const REFRESH_MS = 1000;
+
+// Helper: Placeholder for values a browser doesn't report
+const orDash = (value: string | number | null | undefined) => (value === null || value === undefined ? '–' : value);
+
+/**
+ * Collapsible panel with what the active track actually delivers and how the decode loop performs.
+ * Only polls while open.
+ */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ track, getStats, devices, selectedDeviceId }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [trackInfo, setTrackInfo] = useState<TrackDiagnostics | null>(null);
+  const [metrics, setMetrics] = useState<ScanMetrics | null>(null);
+  const sinceRef = useRef<ScanStatsSnapshot | null>(null);
+  const { t, formatNumber } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => {
+      setTrackInfo(track ? describeTrack(track) : null);
+      const stats = getStats();
+      if (!stats) {
+        setMetrics(null);
+        return;
+      }
+      const now = performance.now();
+      setMetrics(computeScanMetrics(stats, sinceRef.current, now));
+      sinceRef.current = snapshotStats(stats, now);
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, track, getStats]);
+
+  return (
+    <details className="diagnostics-panel" onToggle={e => setIsOpen(e.currentTarget.open)}>
+      <summary>{t('diagnostics.title')}</summary>
+      <h4>{t('diagnostics.cameras', { count: devices.length })}</h4>
+      <ul>
+        {devices.map(d => (
+          <li key={d.deviceId}>
+            {d.label || t('scanner.camera')} {d.deviceId === selectedDeviceId && <strong>{t('diagnostics.selected')}</strong>}
+          </li>
+        ))}
+      </ul>
+      <h4>{t('diagnostics.activeTrack')}</h4>
+      {trackInfo ? (
+        <dl className="payload-fields">
+          <dt>{t('diagnostics.label')}</dt><dd>{orDash(trackInfo.label)}</dd>
+          <dt>{t('diagnostics.resolution')}</dt><dd>{trackInfo.width && trackInfo.height ? `${trackInfo.width}×${trackInfo.height}` : '–'}</dd>
+          <dt>{t('diagnostics.frameRate')}</dt><dd>{orDash(trackInfo.frameRate === null ? null : formatNumber(trackInfo.frameRate))}</dd>
+          <dt>{t('diagnostics.facingMode')}</dt><dd>{orDash(trackInfo.facingMode)}</dd>
+          <dt>{t('diagnostics.state')}</dt><dd>{trackInfo.readyState}{trackInfo.muted ? ` ${t('diagnostics.muted')}` : ''}</dd>
+          <dt>{t('diagnostics.capabilities')}</dt><dd>{trackInfo.capabilities.join(', ') || t('diagnostics.noCapabilities')}</dd>
+        </dl>
+      ) : (
+        <p>{t('diagnostics.noTrack')}</p>
+      )}
+      <h4>{t('diagnostics.decoding')}</h4>
+      {metrics ? (
+        <dl className="payload-fields">
+          <dt>{t('diagnostics.attemptsPerSecond')}</dt><dd>{formatNumber(metrics.attemptsPerSecond)}</dd>
+          <dt>{t('diagnostics.decodeTime')}</dt><dd>{t('diagnostics.decodeTimeValue', { avg: metrics.avgDecodeMs, max: metrics.maxDecodeMs })}</dd>
+          <dt>{t('diagnostics.timeToFirstScan')}</dt>
+          <dd>{metrics.timeToFirstScanMs === null ? t('diagnostics.noScanYet') : t('diagnostics.milliseconds', { value: metrics.timeToFirstScanMs })}</dd>
+          <dt>{t('diagnostics.errorRate')}</dt>
+          <dd>
+            {t('diagnostics.errorRateValue', {
+              rate: formatNumber(metrics.errorRate, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+              errors: metrics.errors,
+              attempts: metrics.attempts,
+            })}
+          </dd>
+        </dl>
+      ) : (
+        <p>{t('diagnostics.notScanned')}</p>
+      )}
+    </details>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { remoteLog } from '../utils/remoteLog';
+import { decodeImageBlob } from '../utils/imageDecoder';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImageDecodeInputProps {
+  /** Called once per decoded image with every code found in it. */
+  onCodes: (codes: string[]) => void;
+}
+
+interface DecodeReport {
+  name: string;
+  codes: string[];
+  error?: string;
+}
+
+/**
+ * Still-image input path: file picker, clipboard paste and drag-and-drop.
+ * Every image is decoded for all contained QR codes.
+ */
+const ImageDecodeInput: React.FC<ImageDecodeInputProps> = ({ onCodes }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState<boolean>(false);
+  const [isDecoding, setIsDecoding] = useState<boolean>(false);
+  const [reports, setReports] = useState<DecodeReport[]>([]);
+  const { t } = useI18n();
+
+  const decodeBlobs = useCallback(async (blobs: Array<{ blob: Blob; name: string }>) => {
+    if (blobs.length === 0) return;
+    setIsDecoding(true);
+    const results: DecodeReport[] = [];
+    for (const { blob, name } of blobs) {
+      try {
+        const codes = (await decodeImageBlob(blob)).map(c => c.data);
+        remoteLog('Client', LogLevel.INFO, 'ImageDecodeInput', `Decoded ${codes.length} code(s) from ${name}`);
+        results.push({ name, codes });
+        if (codes.length > 0) onCodes(codes);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        remoteLog('Client', LogLevel.WARN, 'ImageDecodeInput', `Failed to decode ${name}`, message);
+        results.push({ name, codes: [], error: message });
+      }
+    }
+    setReports(results);
+    setIsDecoding(false);
+  }, [onCodes]);
+
+  // Paste anywhere on the page (Ctrl/Cmd+V) unless the user is typing into a field
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const images = Array.from(event.clipboardData?.items ?? [])
+        .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+        .map(item => item.getAsFile())
+        .filter((file): file is File => file !== null);
+      if (images.length > 0) {
+        event.preventDefault();
+        void decodeBlobs(images.map(file => ({ blob: file, name: t('imageDecode.pastedImage') })));
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [decodeBlobs, t]);
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return;
+    void decodeBlobs(Array.from(files).map(file => ({ blob: file, name: file.name })));
+  };
+
+  // Explicit button for browsers/devices without a paste shortcut (async Clipboard API)
+  const handlePasteButton = async () => {
+    try {
+      const items = await navigator.clipboard.read();
+      const blobs: Array<{ blob: Blob; name: string }> = [];
+      for (const item of items) {
+        const type = item.types.find(mime => mime.startsWith('image/'));
+        if (type) blobs.push({ blob: await item.getType(type), name: t('imageDecode.clipboardImage') });
+      }
+      if (blobs.length === 0) {
+        setReports([{ name: t('imageDecode.clipboard'), codes: [], error: t('imageDecode.noImageInClipboard') }]);
+        return;
+      }
+      await decodeBlobs(blobs);
+    } catch (err) {
+      setReports([{ name: t('imageDecode.clipboard'), codes: [], error: err instanceof Error ? err.message : String(err) }]);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    handleFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <section className="image-decode">
+      <div
+        className={`drop-zone ${isDragOver ? 'drag-over' : ''}`}
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        <span>{t(isDecoding ? 'imageDecode.decoding' : 'imageDecode.dropHint')}</span>
+        <button className="default" onClick={() => fileInputRef.current?.click()} disabled={isDecoding}>
+          {t('imageDecode.chooseFiles')}
+        </button>
+        {'clipboard' in navigator && 'read' in navigator.clipboard && (
+          <button className="default" onClick={() => void handlePasteButton()} disabled={isDecoding}>
+            {t('imageDecode.pasteImage')}
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          hidden
+          onChange={e => {
+            handleFiles(e.target.files);
+            e.target.value = ''; // Allow picking the same file again
+          }}
+        />
+      </div>
+      {reports.length > 0 && (
+        <ul className="image-decode-reports">
+          {reports.map((report, idx) => (
+            <li key={`${report.name}-${idx}`}>
+              <strong>{report.name}:</strong>{' '}
+              {report.error
+                ? <span className="image-decode-error">{report.error}</span>
+                : report.codes.length === 0
+                  ? t('imageDecode.noCode')
+                  : report.codes.length === 1
+                    ? t('imageDecode.oneCode')
+                    : t('imageDecode.codes', { count: report.codes.length })}
+              {report.codes.length > 0 && (
+                <ol>
+                  {report.codes.map((code, codeIdx) => <li key={codeIdx}>{code}</li>)}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ImageDecodeInput;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { InventoryLine, DEFAULT_SESSION_ENDPOINT } from '../utils/inventory';
+import { useI18n } from '../hooks/useI18n';
+import { Translatable } from '../i18n';
+
+interface InventoryPanelProps {
+  sessionId: string;
+  lines: InventoryLine[];
+  isSubmitting: boolean;
+  onQuantityChange: (code: string, quantity: number) => void;
+  onRemove: (code: string) => void;
+  onReset: () => void;
+  onSubmit: (endpoint: string) => Promise<'sent' | 'queued'>;
+}
+
+const InventoryPanel: React.FC<InventoryPanelProps> = ({
+  sessionId,
+  lines,
+  isSubmitting,
+  onQuantityChange,
+  onRemove,
+  onReset,
+  onSubmit,
+}) => {
+  const [endpoint, setEndpoint] = useState<string>(DEFAULT_SESSION_ENDPOINT);
+  // Kept untranslated so it follows a language switch
+  const [status, setStatus] = useState<Translatable | null>(null);
+  const { t } = useI18n();
+
+  const totalQuantity = lines.reduce((sum, l) => sum + l.quantity, 0);
+
+  const handleSubmit = async () => {
+    setStatus(null);
+    try {
+      const outcome = await onSubmit(endpoint);
+      setStatus({ key: outcome === 'sent' ? 'inventory.submitted' : 'inventory.queued' });
+    } catch (err) {
+      setStatus({ key: 'inventory.failed', params: { reason: err instanceof Error ? err.message : String(err) } });
+    }
+  };
+
+  const handleReset = () => {
+    if (lines.length === 0 || window.confirm(t('inventory.confirmReset'))) {
+      onReset();
+      setStatus(null);
+    }
+  };
+
+  return (
+    <section className="inventory-panel">
+      <h3>{t('inventory.title')}</h3>
+      <small>{t('inventory.summary', { session: sessionId, items: lines.length, units: totalQuantity })}</small>
+      {lines.length === 0 ? (
+        <p>{t('inventory.empty')}</p>
+      ) : (
+        <table className="inventory-table">
+          <thead>
+            <tr>
+              <th>{t('inventory.code')}</th>
+              <th>{t('inventory.quantity')}</th>
+              <th aria-label={t('inventory.actions')} />
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map(line => (
+              <tr key={line.code}>
+                <td className="inventory-code">{line.code}</td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    value={line.quantity}
+                    onChange={e => onQuantityChange(line.code, Number(e.target.value))}
+                    aria-label={t('inventory.quantityFor', { code: line.code })}
+                  />
+                </td>
+                <td>
+                  <button onClick={() => onRemove(line.code)} aria-label={t('inventory.removeLine')} title={t('inventory.removeLine')}>✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="inventory-submit">
+        <input
+          type="text"
+          value={endpoint}
+          onChange={e => setEndpoint(e.target.value)}
+          aria-label={t('inventory.endpoint')}
+          placeholder={t('inventory.endpoint')}
+        />
+        <button className="default" onClick={() => void handleSubmit()} disabled={isSubmitting || lines.length === 0 || !endpoint}>
+          {t(isSubmitting ? 'inventory.submitting' : 'inventory.submit')}
+        </button>
+        <button onClick={handleReset} disabled={isSubmitting}>{t('inventory.newSession')}</button>
+      </div>
+      {status && <p>{t(status)}</p>}
+    </section>
+  );
+};
+
+export default InventoryPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { LanguagePreference, SUPPORTED_LOCALES } from '../i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface LanguageSwitcherProps {
+  value: LanguagePreference;
+  onChange: (language: LanguagePreference) => void;
+}
+
+/**
+ * Language select for the header: the browser language or one of the supported locales.
+ */
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <select
+      className="language-switcher"
+      value={value}
+      onChange={e => onChange(e.target.value as LanguagePreference)}
+      aria-label={t('language.label')}
+      title={t('language.label')}
+    >
+      <option value="auto">{t('language.auto')}</option>
+      {SUPPORTED_LOCALES.map(locale => (
+        <option key={locale} value={locale} lang={locale}>{t(`language.${locale}`)}</option>
+      ))}
+    </select>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { LiveSessionErrorReason, LiveSessionState, buildJoinUrl, normalizeSessionCode } from '../utils/liveSession';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+const ERROR_MESSAGES: Record<LiveSessionErrorReason, MessageKey> = {
+  'not-found': 'live.errorNotFound',
+  'not-joined': 'live.errorNotJoined',
+  'invalid-message': 'live.errorInvalidMessage',
+  'session-full': 'live.errorSessionFull',
+};
+
+interface LiveSessionPanelProps {
+  session: LiveSessionState;
+  clientId: string;
+  name: string;
+  onNameChange: (name: string) => void;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+}
+
+/**
+ * Create or join a live session, show its join QR code, the participants and the merged scans of everyone.
+ */
+const LiveSessionPanel: React.FC<LiveSessionPanelProps> = ({ session, clientId, name, onNameChange, onCreate, onJoin, onLeave }) => {
+  const { t, formatDateTime } = useI18n();
+  const [codeInput, setCodeInput] = useState<string>('');
+  const [invalidCode, setInvalidCode] = useState<boolean>(false);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  // Join link as QR code for the other devices
+  useEffect(() => {
+    if (!session.code || session.status !== 'joined') {
+      setQrDataUrl(null);
+      return;
+    }
+    let cancelled = false;
+    QRCode.toDataURL(buildJoinUrl(session.code), { margin: 1, width: 180 })
+      .then(url => {
+        if (!cancelled) setQrDataUrl(url);
+      })
+      .catch(() => setQrDataUrl(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [session.code, session.status]);
+
+  const handleJoin = (event: React.FormEvent) => {
+    event.preventDefault();
+    const code = normalizeSessionCode(codeInput);
+    setInvalidCode(!code);
+    if (code) onJoin(code);
+  };
+
+  const participantName = (participant: { clientId: string; name: string }) => {
+    const label = participant.name || participant.clientId;
+    return participant.clientId === clientId ? t('live.you', { name: label }) : label;
+  };
+
+  return (
+    <section className="live-session">
+      <h3>{t('live.title')}</h3>
+      {session.status === 'idle' ? (
+        <>
+          <p>{t('live.hint')}</p>
+          <div className="live-session-form">
+            <input
+              type="text"
+              value={name}
+              onChange={e => onNameChange(e.target.value)}
+              placeholder={clientId}
+              aria-label={t('live.name')}
+              title={t('live.name')}
+              maxLength={40}
+            />
+            <button className="default" onClick={onCreate}>{t('live.create')}</button>
+          </div>
+          <form className="live-session-form" onSubmit={handleJoin}>
+            <input
+              type="text"
+              value={codeInput}
+              onChange={e => setCodeInput(e.target.value)}
+              placeholder={t('live.codePlaceholder')}
+              aria-label={t('live.codePlaceholder')}
+              autoCapitalize="characters"
+              maxLength={6}
+            />
+            <button type="submit" disabled={!codeInput.trim()}>{t('live.join')}</button>
+          </form>
+          {invalidCode && <p className="live-session-error">{t('live.invalidCode')}</p>}
+        </>
+      ) : (
+        <>
+          <div className="live-session-header">
+            <strong>{session.code ? t('live.code', { code: session.code }) : t('live.connecting')}</strong>
+            <button onClick={onLeave}>{t('live.leave')}</button>
+          </div>
+          {session.status === 'connecting' && session.code && <p>{t('live.connecting')}</p>}
+          {session.status === 'reconnecting' && <p>{t('live.reconnecting')}</p>}
+          {qrDataUrl && session.code && (
+            <img className="live-session-qr" src={qrDataUrl} alt={t('live.qrAlt', { code: session.code })} width={180} height={180} />
+          )}
+          {session.participants.length > 0 && (
+            <p>
+              {t('live.participants', { count: session.participants.length, names: session.participants.map(participantName).join(', ') })}
+            </p>
+          )}
+          {session.status === 'joined' && session.entries.length === 0 && <p>{t('live.empty')}</p>}
+          <ul className="live-session-list">
+            {session.entries.map(entry => (
+              <li key={entry.value}>
+                <span className="live-session-value">{entry.value}</span>
+                <small>
+                  {t('live.total', { count: entry.scannedBy.reduce((sum, s) => sum + s.count, 0) })}
+                  {' · '}
+                  {entry.scannedBy.map(s => t('live.scanner', { name: participantName(s), count: s.count })).join(', ')}
+                  {' · '}
+                  {formatDateTime(entry.lastScannedAt, { timeStyle: 'medium' })}
+                </small>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {session.error && <p className="live-session-error">{t(ERROR_MESSAGES[session.error])}</p>}
+    </section>
+  );
+};
+
+export default LiveSessionPanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { useOutbox } from '../hooks/useOutbox';
+import { flushOutbox } from '../utils/outbox';
+import { useI18n } from '../hooks/useI18n';
+
+/**
+ * Small status badge showing offline state and the number of queued uploads.
+ * Hidden while online with an empty outbox.
+ */
+const OutboxIndicator: React.FC = () => {
+  const { pendingCount, isOnline } = useOutbox();
+  const { t } = useI18n();
+
+  if (isOnline && pendingCount === 0) return null;
+
+  return (
+    <div className={`outbox-indicator ${isOnline ? '' : 'offline'}`} role="status" aria-live="polite">
+      {!isOnline && <span>{t('outbox.offline')}</span>}
+      {pendingCount > 0 && <span>{t('outbox.pending', { count: pendingCount })}</span>}
+      {isOnline && pendingCount > 0 && (
+        <button className="default link-button" onClick={() => void flushOutbox()}>{t('outbox.retry')}</button>
+      )}
+    </div>
+  );
+};
+
+export default OutboxIndicator;
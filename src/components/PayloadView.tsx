@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { ParsedPayload, PayloadAction } from '../payloads';
+import { remoteLog } from '../utils/remoteLog';
+import { downloadTextFile } from '../utils/download';
+import { useI18n } from '../hooks/useI18n';
+import { Translatable } from '../i18n';
+
+interface PayloadViewProps {
+  payload: ParsedPayload;
+}
+
+/**
+ * Structured view of a classified scan result with its type-specific actions.
+ */
+const PayloadView: React.FC<PayloadViewProps> = ({ payload }) => {
+  const [revealed, setRevealed] = useState<Record<number, boolean>>({});
+  const [actionStatus, setActionStatus] = useState<Translatable | null>(null);
+  const { t } = useI18n();
+
+  const runAction = async (action: PayloadAction) => {
+    remoteLog('Client', LogLevel.INFO, 'PayloadView', `Action '${action.label.key}' on ${payload.type} payload`);
+    try {
+      switch (action.kind) {
+        case 'open':
+          // Safety prompt before leaving the app for an arbitrary link
+          if (action.confirm && !window.confirm(t('payload.confirmOpen', { url: action.url }))) return;
+          window.open(action.url, '_blank', 'noopener,noreferrer');
+          break;
+        case 'copy':
+          await navigator.clipboard.writeText(action.text);
+          setActionStatus({ key: 'payload.copied' });
+          break;
+        case 'download':
+          downloadTextFile(action.filename, action.content, action.mimeType);
+          break;
+      }
+    } catch (err) {
+      remoteLog('Client', LogLevel.WARN, 'PayloadView', `Action '${action.label.key}' failed`, err instanceof Error ? err.message : String(err));
+      setActionStatus({ key: 'payload.actionFailed', params: { reason: err instanceof Error ? err.message : String(err) } });
+    }
+  };
+
+  return (
+    <div className="payload-view">
+      <p>
+        {t('payload.lastResult')} <span className="payload-type">{t(payload.label)}</span>
+      </p>
+      {payload.fields.length > 0 ? (
+        <dl className="payload-fields">
+          {/* Labels repeat (several phones or emails), so fields are keyed by position */}
+          {payload.fields.map((field, index) => (
+            <React.Fragment key={index}>
+              <dt>{t(field.label)}</dt>
+              <dd>
+                {field.sensitive && !revealed[index] ? (
+                  <button className="default link-button" onClick={() => setRevealed(r => ({ ...r, [index]: true }))}>
+                    {t('payload.show')}
+                  </button>
+                ) : (
+                  typeof field.value === 'string' ? field.value : t(field.value)
+                )}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      ) : (
+        <p className="payload-raw">{payload.raw}</p>
+      )}
+      {payload.actions.length > 0 && (
+        <div className="payload-actions">
+          {payload.actions.map(action => (
+            <button key={action.label.key} className="default" onClick={() => void runAction(action)}>
+              {t(action.label)}
+            </button>
+          ))}
+        </div>
+      )}
+      {actionStatus && <small>{t(actionStatus)}</small>}
+    </div>
+  );
+};
+
+export default PayloadView;
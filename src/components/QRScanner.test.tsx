@@ -0,0 +1,216 @@
+import { createRef } from 'react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CameraManager } from 'qr-scanner-library';
+import QRScanner, { QRScannerHandle, ScannerState } from './QRScanner';
+import { FakeCamera, FakeMediaDevices, installFakeMediaDevices, renderQrFrame } from '../test/fakeMedia';
+import { I18nContext, createI18n } from '../i18n';
+import { remoteLog } from '../utils/remoteLog';
+
+vi.mock('../utils/remoteLog', () => ({
+  remoteLog: vi.fn(),
+  registerSensitiveValue: vi.fn(),
+}));
+
+let rear: FakeCamera;
+let front: FakeCamera;
+let media: FakeMediaDevices;
+let states: ScannerState[];
+
+const lastState = () => states[states.length - 1];
+
+function setHidden(hidden: boolean) {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+function renderScanner(props: Partial<React.ComponentProps<typeof QRScanner>> = {}) {
+  const ref = createRef<QRScannerHandle>();
+  const callbacks = { onResult: vi.fn(), onError: vi.fn(), onDeviceChange: vi.fn() };
+  const utils = render(
+    <QRScanner
+      ref={ref}
+      scanInterval={10}
+      telemetryIntervalMs={0}
+      regionOfInterest={null}
+      onStateChange={state => states.push(state)}
+      {...callbacks}
+      {...props}
+    />
+  );
+  return { ref, ...callbacks, ...utils };
+}
+
+beforeEach(() => {
+  states = [];
+  rear = { deviceId: 'rear', label: 'Back Camera', facingMode: 'environment' };
+  front = { deviceId: 'front', label: 'Front Camera', facingMode: 'user' };
+  media = installFakeMediaDevices([front, rear]);
+  vi.spyOn(CameraManager, 'listDevices').mockImplementation(async () => media.listDevices());
+});
+
+afterEach(() => {
+  setHidden(false);
+});
+
+describe('QRScanner', () => {
+  it('primes permission, then auto-starts the rear camera and reports decoded codes', async () => {
+    const { onResult, onDeviceChange } = renderScanner();
+
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    // Reported from an effect, so React may batch away short-lived states like 'starting'
+    expect(states.slice(0, 2)).toEqual(['idle', 'priming']);
+    expect(onDeviceChange).toHaveBeenCalledWith({ deviceId: 'rear', label: 'Back Camera' });
+    // The priming stream is released right away; only the scanning track stays live
+    expect(media.liveTracks()).toHaveLength(1);
+
+    rear.frame = renderQrFrame('HELLO-42');
+    await waitFor(() => expect(onResult).toHaveBeenCalled());
+    expect(onResult.mock.calls[0][0]).toMatchObject({ value: 'HELLO-42', deviceId: 'rear' });
+    expect(onResult.mock.calls[0][0].detection.corners).toHaveLength(4);
+  });
+
+  it('honours initialDeviceId and waits for start() without autoStart', async () => {
+    const { ref, onDeviceChange } = renderScanner({ autoStart: false, initialDeviceId: 'front' });
+
+    // onStateChange is reported from an effect and can lag behind the rendered select
+    await waitFor(() => {
+      expect(screen.getByRole('combobox')).toHaveProperty('value', 'front');
+      expect(lastState()).toBe('idle');
+    });
+    expect(media.liveTracks()).toHaveLength(0);
+
+    await act(() => ref.current!.start());
+    expect(lastState()).toBe('scanning');
+    expect(onDeviceChange).toHaveBeenLastCalledWith({ deviceId: 'front', label: 'Front Camera' });
+  });
+
+  it('switches cameras via the ref and the select, releasing the previous track', async () => {
+    const { ref, onDeviceChange } = renderScanner();
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    const rearTrack = media.liveTracks()[0];
+
+    await act(() => ref.current!.switchCamera());
+    expect(rearTrack.readyState).toBe('ended');
+    expect(media.liveTracks().map(t => t.label)).toEqual(['Front Camera']);
+    expect(onDeviceChange).toHaveBeenLastCalledWith({ deviceId: 'front', label: 'Front Camera' });
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'rear' } });
+    await waitFor(() => expect(onDeviceChange).toHaveBeenLastCalledWith({ deviceId: 'rear', label: 'Back Camera' }));
+    expect(media.liveTracks().map(t => t.label)).toEqual(['Back Camera']);
+  });
+
+  it('sends the final telemetry of a camera with its own stats after switching', async () => {
+    rear.frame = renderQrFrame('TELEMETRY');
+    const { ref, onResult } = renderScanner({ telemetryIntervalMs: 60000 });
+    await waitFor(() => expect(onResult).toHaveBeenCalled());
+    vi.mocked(remoteLog).mockClear();
+
+    await act(() => ref.current!.switchCamera());
+    const finals = vi.mocked(remoteLog).mock.calls
+      .filter(([, , component]) => component === 'Telemetry')
+      .map(([, , , , data]) => data as { final: boolean; track: { label: string }; metrics: { decodes: number; timeToFirstScanMs: number | null } });
+    expect(finals).toHaveLength(1);
+    expect(finals[0]).toMatchObject({ final: true, track: { label: 'Back Camera' } });
+    expect(finals[0].metrics.decodes).toBeGreaterThan(0);
+    expect(finals[0].metrics.timeToFirstScanMs).not.toBeNull();
+  });
+
+  it('reports a blocked permission and does not auto-start', async () => {
+    media.failWith('NotAllowedError');
+    const { onError } = renderScanner();
+
+    await waitFor(() => expect(lastState()).toBe('error'));
+    expect(screen.getByText(/Camera access is blocked/)).toBeTruthy();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(states).not.toContain('starting');
+  });
+
+  it('shows the in-use error when starting fails and retries from the start button', async () => {
+    const { onError } = renderScanner({ autoStart: false });
+    await waitFor(() => expect(lastState()).toBe('idle'));
+
+    media.failWith('NotReadableError');
+    fireEvent.click(screen.getByRole('button', { name: 'Start Scan' }));
+    await waitFor(() => expect(lastState()).toBe('error'));
+    expect(screen.getByText(/in use by another app/)).toBeTruthy();
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    media.failWith(null);
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    expect(screen.queryByText(/in use by another app/)).toBeNull();
+  });
+
+  it('shows texts and errors in the provided language', async () => {
+    media.failWith('NotAllowedError');
+    const onError = vi.fn();
+    render(
+      <I18nContext.Provider value={createI18n('de')}>
+        <QRScanner telemetryIntervalMs={0} onError={onError} />
+      </I18nContext.Provider>
+    );
+
+    await waitFor(() => expect(screen.getByText(/^Fehler: Der Kamerazugriff ist blockiert/)).toBeTruthy());
+    expect(screen.getByRole('button', { name: 'Erneut versuchen' })).toBeTruthy();
+    expect(onError.mock.calls[0][0].message).toMatch(/^Der Kamerazugriff ist blockiert/);
+  });
+
+  it('starts once a camera is plugged in after none was found', async () => {
+    media = installFakeMediaDevices([]);
+    renderScanner();
+    await waitFor(() => expect(lastState()).toBe('error'));
+    expect(screen.getByText(/No camera found/)).toBeTruthy();
+
+    act(() => media.plug(front));
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    expect(media.liveTracks().map(t => t.label)).toEqual(['Front Camera']);
+  });
+
+  it('recovers on another camera when the active one is unplugged', async () => {
+    const { onDeviceChange } = renderScanner();
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+
+    act(() => media.unplug('rear'));
+    await waitFor(() => expect(onDeviceChange).toHaveBeenLastCalledWith({ deviceId: 'front', label: 'Front Camera' }));
+    expect(states).toContain('recovering');
+    expect(lastState()).toBe('scanning');
+  });
+
+  it('pauses on a muted track and releases the camera while the page is hidden', async () => {
+    renderScanner();
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    const track = media.liveTracks()[0];
+
+    act(() => track.simulateMute(true));
+    expect(lastState()).toBe('paused');
+    act(() => track.simulateMute(false));
+    expect(lastState()).toBe('scanning');
+
+    act(() => setHidden(true));
+    expect(lastState()).toBe('paused');
+    expect(screen.getByText(/page is in the background/)).toBeTruthy();
+    expect(media.liveTracks()).toHaveLength(0);
+
+    act(() => setHidden(false));
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    expect(media.liveTracks().map(t => t.label)).toEqual(['Back Camera']);
+  });
+
+  it('stops after the first result in single mode', async () => {
+    rear.frame = renderQrFrame('ONCE');
+    const { onResult } = renderScanner({ mode: 'single' });
+    await waitFor(() => expect(onResult).toHaveBeenCalledTimes(1));
+    await waitFor(() => expect(lastState()).toBe('idle'));
+    expect(media.liveTracks()).toHaveLength(0);
+  });
+
+  it('releases the camera on unmount', async () => {
+    const { unmount } = renderScanner();
+    await waitFor(() => expect(lastState()).toBe('scanning'));
+    expect(media.liveTracks()).toHaveLength(1);
+
+    unmount();
+    expect(media.liveTracks()).toHaveLength(0);
+  });
+});
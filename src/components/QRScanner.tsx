@@ -1,66 +1,296 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-// Import ScannerService, CameraManager, ScannerOptions, and LogLevel from the library
-import { ScannerService, ScannerOptions, CameraManager, LogLevel } from 'qr-scanner-library';
+import React, { useRef, useEffect, useState, useCallback, useImperativeHandle, forwardRef } from 'react';
+// Import CameraManager and LogLevel from the library; decoding runs in our FrameScanner
+import { CameraManager, LogLevel } from 'qr-scanner-library';
 // Import only the remoteLog function from utils
-import { remoteLog } from '../utils/remoteLog';
-import { DebugScreenshotButton } from 'remote-debug-screenshot';
+import { remoteLog, registerSensitiveValue } from '../utils/remoteLog';
+import CameraControls from './CameraControls';
+import { getVideoTrack } from '../utils/cameraControls';
+import FrameScanner, { Detection, FrameScannerOptions } from '../utils/frameScanner';
+import { DEFAULT_REGION_OF_INTEREST, RegionOfInterest } from '../utils/overlayGeometry';
+import ScanOverlay from './ScanOverlay';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import { useScanTelemetry, DEFAULT_TELEMETRY_INTERVAL_MS } from '../hooks/useScanTelemetry';
+import { ScanStats } from '../utils/scanMetrics';
+import { DevicePreference, resolvePreferredDevice } from '../utils/settings';
+import { useI18n } from '../hooks/useI18n';
+import {
+  CameraError,
+  CameraErrorKind,
+  INITIAL_SCANNER_STATE,
+  PauseReason,
+  ScannerEvent,
+  ScannerMachineState,
+  ScannerStatus,
+  classifyCameraError,
+  describeCameraError,
+  describeScannerStatus,
+  isCameraActive,
+  scannerReducer,
+} from '../utils/scannerMachine';
 import startIconUrl from '../assets/icons/start.svg';
 import stopIconUrl from '../assets/icons/stop.svg';
 
-const QRScanner: React.FC = () => {
+/** Lifecycle state reported via onStateChange (see utils/scannerMachine.ts). */
+export type ScannerState = ScannerStatus;
+
+/** Extra information for renderStatus. */
+export interface ScannerStatusDetail {
+  /** Why the last start failed (permission denied, camera in use, ...); null without error. */
+  errorKind: CameraErrorKind | null;
+  /** Why a running scan is paused; null unless the state is 'paused'. */
+  pauseReason: PauseReason | null;
+}
+
+/** A code decoded from the live camera. */
+export interface ScanResultEvent {
+  value: string;
+  /** deviceId the scanner was started with ('' for the default camera). */
+  deviceId: string;
+  timestamp: number;
+  /** Position of the code in the video frame. */
+  detection: Detection | null;
+}
+
+/** Camera a scan was started with, reported via onDeviceChange. */
+export interface ActiveDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface QRScannerProps {
+  /** Called for every decode (continuous mode reports a code again while it stays in view). */
+  onResult?: (result: ScanResultEvent) => void;
+  onError?: (error: Error) => void;
+  onStateChange?: (state: ScannerState) => void;
+  /** Called after a camera has started successfully. */
+  onDeviceChange?: (device: ActiveDevice) => void;
+  /** Camera to select first; falls back to the label, the rear camera, then the first camera. */
+  initialDeviceId?: string;
+  /** Label of the initial camera, used when browsers rotate device IDs. */
+  initialDeviceLabel?: string;
+  /** Start as soon as the cameras are listed (default: true). */
+  autoStart?: boolean;
+  /** 'single' stops after the first result (default: 'continuous'). */
+  mode?: 'continuous' | 'single';
+  /** Aiming frame and decode area; null decodes the whole frame. */
+  regionOfInterest?: RegionOfInterest | null;
+  /** Milliseconds between decode attempts. */
+  scanInterval?: number;
+  /** Show torch/zoom/focus/resolution controls (default: true). */
+  showCameraControls?: boolean;
+  /** Show the collapsible track/decode diagnostics panel (default: false). */
+  showDiagnostics?: boolean;
+  /** Interval of the decode telemetry sent via remoteLog; 0 disables it (default: 30 s). */
+  telemetryIntervalMs?: number;
+  /** Rendered above the controls row (e.g. a heading). */
+  header?: React.ReactNode;
+  /** Extra controls rendered at the end of the controls row. */
+  toolbar?: React.ReactNode;
+  /** Rendered inside the video frame on top of the aiming overlay (e.g. a flash). */
+  overlay?: React.ReactNode;
+  /** Replaces the default error/"Scanning..." line below the video. */
+  renderStatus?: (state: ScannerState, error: string | null, detail: ScannerStatusDetail) => React.ReactNode;
+  /** Rendered below the status line. */
+  children?: React.ReactNode;
+}
+
+/** Imperative API exposed via `ref`. */
+export interface QRScannerHandle {
+  /** Starts scanning with the given or currently selected camera. */
+  start: (deviceId?: string) => Promise<void>;
+  stop: () => void;
+  /** Restarts with the given camera, or the next listed one if omitted. */
+  switchCamera: (deviceId?: string) => Promise<void>;
+  /** Decode counters of the current (or last) run, null before the first start. */
+  getStats: () => ScanStats | null;
+}
+
+interface DefaultStatusProps {
+  state: ScannerState;
+  error: string | null;
+  detail: ScannerStatusDetail;
+}
+
+const DefaultStatus: React.FC<DefaultStatusProps> = ({ state, error, detail }) => {
+  const { t } = useI18n();
+  const status = describeScannerStatus(state, detail.pauseReason);
+  return (
+    <>
+      {error && <p style={{ color: 'red' }}>{t('status.error', { message: error })}</p>}
+      {state === 'scanning' && <p>{t('status.scanning')}</p>}
+      {status && <p>{t(status)}</p>}
+    </>
+  );
+};
+
+const defaultRenderStatus = (state: ScannerState, error: string | null, detail: ScannerStatusDetail): React.ReactNode => (
+  <DefaultStatus state={state} error={error} detail={detail} />
+);
+
+// Restart attempts after a lost track before giving up (delay grows per attempt)
+const MAX_RECOVERY_ATTEMPTS = 3;
+const RECOVERY_DELAY_MS = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Camera scanner with device selection, aiming overlay and camera controls.
+ * Results and state changes are reported through callbacks; what happens with
+ * a result (history, inventory, display) is up to the embedding component.
+ */
+const QRScanner = forwardRef<QRScannerHandle, QRScannerProps>(({
+  onResult,
+  onError,
+  onStateChange,
+  onDeviceChange,
+  initialDeviceId,
+  initialDeviceLabel,
+  autoStart = true,
+  mode = 'continuous',
+  regionOfInterest = DEFAULT_REGION_OF_INTEREST,
+  scanInterval,
+  showCameraControls = true,
+  showDiagnostics = false,
+  telemetryIntervalMs = DEFAULT_TELEMETRY_INTERVAL_MS,
+  header,
+  toolbar,
+  overlay,
+  renderStatus = defaultRenderStatus,
+  children,
+}, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const scannerServiceRef = useRef<ScannerService | null>(null);
+  const scannerServiceRef = useRef<FrameScanner | null>(null);
+  // Kept after stop so diagnostics can read its stats
+  const lastScannerRef = useRef<FrameScanner | null>(null);
+  // Scanner per started track, for the telemetry of that track
+  const trackScannersRef = useRef(new WeakMap<MediaStreamTrack, FrameScanner>());
   const hasAutoStartedRef = useRef<boolean>(false);
+  // Set while a camera is being started, to reject overlapping starts
+  const isStartingRef = useRef<boolean>(false);
+  // Set while the track-lost/resume loop runs, so only one restarts the camera
+  const isRecoveringRef = useRef<boolean>(false);
+  // deviceId the running scanner was started with (reported with each result)
+  const activeDeviceIdRef = useRef<string>('');
+  // Camera to restart after a lost track or a hidden tab
+  const lastDeviceRef = useRef<DevicePreference>({});
+  // Mirrors the props for callbacks created earlier (mount effect, running scanner)
+  const propsRef = useRef({ onResult, onError, onDeviceChange, initialDeviceId, initialDeviceLabel, mode, autoStart });
+
+  useEffect(() => {
+    propsRef.current = { onResult, onError, onDeviceChange, initialDeviceId, initialDeviceLabel, mode, autoStart };
+  }, [onResult, onError, onDeviceChange, initialDeviceId, initialDeviceLabel, mode, autoStart]);
+
+  // UI texts; the ref gives onError the current language without recreating the callbacks
+  const i18n = useI18n();
+  const { t } = i18n;
+  const i18nRef = useRef(i18n);
+
+  useEffect(() => {
+    i18nRef.current = i18n;
+  }, [i18n]);
 
   // Component State
   const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
-  const [isScanning, setIsScanning] = useState<boolean>(false);
-  const [isLoadingCameras, setIsLoadingCameras] = useState<boolean>(true);
-  const [scanResult, setScanResult] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Lifecycle state; the ref is updated synchronously so async handlers see transitions immediately
+  const [machine, setMachine] = useState<ScannerMachineState>(INITIAL_SCANNER_STATE);
+  const machineRef = useRef<ScannerMachineState>(INITIAL_SCANNER_STATE);
+  // Video track of the running scanner (for torch/zoom/focus/resolution controls)
+  const [activeTrack, setActiveTrack] = useState<MediaStreamTrack | null>(null);
+  // Last detected code position, drawn by the overlay
+  const [detection, setDetection] = useState<Detection | null>(null);
+
+  const state: ScannerState = machine.status;
+  const error = machine.error ? t(describeCameraError(machine.error)) : null;
+
+  useEffect(() => {
+    onStateChange?.(state);
+  }, [state, onStateChange]);
+
+  const send = useCallback((event: ScannerEvent) => {
+    const previous = machineRef.current;
+    const next = scannerReducer(previous, event);
+    if (next === previous) return;
+    remoteLog('Client', LogLevel.DEBUG, 'QRScanner', `State ${previous.status} -> ${next.status} (${event.type})`);
+    machineRef.current = next;
+    setMachine(next);
+  }, []);
+
+  const applyDevices = useCallback((videoDevices: MediaDeviceInfo[]) => {
+    videoDevices.forEach(d => registerSensitiveValue('deviceLabel', d.label));
+    setDevices(videoDevices);
+  }, []);
+
+  // Stops the running scanner and releases the camera without a state transition
+  const releaseScanner = useCallback(() => {
+    if (scannerServiceRef.current) {
+      scannerServiceRef.current.stop();
+      scannerServiceRef.current = null;
+    }
+    setActiveTrack(null);
+  }, []);
+
+  const fail = useCallback((cameraError: CameraError) => {
+    remoteLog('Client', LogLevel.ERROR, 'QRScanner', `Camera error (${cameraError.kind})`, cameraError.message);
+    releaseScanner();
+    send({ type: 'FAIL', error: cameraError });
+    propsRef.current.onError?.(new Error(i18nRef.current.t(describeCameraError(cameraError))));
+  }, [releaseScanner, send]);
 
   // Effect to request camera permission early and populate devices on mount
   useEffect(() => {
     let cancelled = false;
     const primeAndList = async () => {
+      send({ type: 'PRIME' });
+      // deviceId the browser picks for the rear camera; fallback when the initial camera is not found
+      let environmentDeviceId: string | undefined;
+      // Permission denied or camera busy: reported after listing instead of auto-starting
+      let primeError: CameraError | null = null;
       try {
         remoteLog('Client', LogLevel.INFO, 'QRScanner', 'Priming camera permission via getUserMedia...');
         if (navigator.mediaDevices?.getUserMedia) {
-          const tmp = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+          const tmp = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+          environmentDeviceId = tmp.getVideoTracks()[0]?.getSettings().deviceId;
           // Immediately stop to just unlock labels and permissions
           tmp.getTracks().forEach(t => t.stop());
         }
       } catch (permErr) {
         remoteLog('Client', LogLevel.WARN, 'QRScanner', 'Camera permission not granted or unavailable', permErr instanceof Error ? permErr.message : String(permErr));
+        const classified = classifyCameraError(permErr);
+        if (classified.kind === 'permission-denied' || classified.kind === 'in-use') primeError = classified;
         // Continue to listing anyway; some browsers still return devices without permission
       }
 
       remoteLog('Client', LogLevel.INFO, 'QRScanner', 'Fetching camera devices...');
-      setIsLoadingCameras(true);
       try {
         const videoDevices = await CameraManager.listDevices();
         if (cancelled) return;
         remoteLog('Client', LogLevel.INFO, 'QRScanner', `Devices found: ${videoDevices.length}`);
-        setDevices(videoDevices);
-        if (videoDevices.length > 0) {
-          const firstDeviceId = videoDevices[0].deviceId;
-          remoteLog('Client', LogLevel.INFO, 'QRScanner', `Selecting first deviceId: '${firstDeviceId}'`);
-          setSelectedDeviceId(firstDeviceId);
+        applyDevices(videoDevices);
+        const preference = { deviceId: propsRef.current.initialDeviceId, label: propsRef.current.initialDeviceLabel };
+        const preferred = resolvePreferredDevice(videoDevices, preference, environmentDeviceId);
+        if (preferred) {
+          remoteLog('Client', LogLevel.INFO, 'QRScanner', `Selecting deviceId: '${preferred.deviceId}'`);
+          setSelectedDeviceId(preferred.deviceId);
         } else {
           remoteLog('Client', LogLevel.INFO, 'QRScanner', 'No video devices found.');
           setSelectedDeviceId('');
+          primeError = primeError ?? { kind: 'not-found', message: 'No video devices found.' };
+        }
+        if (primeError) {
+          fail(primeError);
+        } else {
+          send({ type: 'PRIMED' });
         }
-        setError(null);
       } catch (err) {
         if (cancelled) return;
         remoteLog('Client', LogLevel.ERROR, 'QRScanner', 'Error listing devices', err);
-        setError(`Failed to list cameras: ${err instanceof Error ? err.message : String(err)}`);
         setDevices([]);
         setSelectedDeviceId('');
+        const reason = err instanceof Error ? err.message : String(err);
+        fail({ kind: 'unknown', message: `Failed to list cameras: ${reason}`, description: { key: 'cameraError.listFailed', params: { reason } } });
       } finally {
         if (!cancelled) {
-          setIsLoadingCameras(false);
           remoteLog('Client', LogLevel.INFO, 'QRScanner', 'Finished loading cameras.');
         }
       }
@@ -77,145 +307,325 @@ const QRScanner: React.FC = () => {
         scannerServiceRef.current.stop();
         scannerServiceRef.current = null;
       }
+      // Ends a pending start or recovery loop
+      send({ type: 'STOP' });
     };
-  }, []);
+  }, [applyDevices, fail, send]);
 
-  // --- Callbacks for ScannerService ---
-  const handleScanSuccess = useCallback((result: string) => {
-    // Library logs detection via passed logger
-    setScanResult(result);
-    setError(null);
-    // Do NOT stop automatically; we keep scanning continuously
-  }, []);
-
-  const handleError = useCallback((err: Error) => {
-    remoteLog('Client', LogLevel.ERROR, 'QRScanner', `Scanner Error`, err);
-    setError(err.message || 'An unknown error occurred during scanning.');
-    setScanResult(null);
-    setIsScanning(false);
-  }, []);
+  // --- Callbacks for FrameScanner ---
+  const handleScanSuccess = useCallback((result: string, resultDetection: Detection | null) => {
+    // FrameScanner logs detection via passed logger
+    registerSensitiveValue('scanPayload', result);
+    propsRef.current.onResult?.({
+      value: result,
+      deviceId: activeDeviceIdRef.current,
+      timestamp: resultDetection?.timestamp ?? Date.now(),
+      detection: resultDetection,
+    });
+    // The scanner stops itself in single-shot mode; keep the UI in sync
+    if (propsRef.current.mode === 'single') {
+      scannerServiceRef.current = null;
+      setActiveTrack(null);
+      send({ type: 'STOP' });
+    }
+  }, [send]);
   // --- End Callbacks ---
 
-  // --- Event Handlers ---
-  const handleDeviceChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const newId = event.target.value;
-    setSelectedDeviceId(newId);
-    // Stop scanning if device changes while active
-    if (isScanning) {
-      handleStopScan();
-    } else {
-      // Auto-start when user selects a camera and not currently scanning
-      void handleStartScan(newId);
+  /**
+   * Creates and starts a FrameScanner for the device. Does not change the lifecycle state;
+   * callers send STARTED or FAIL depending on the returned error.
+   */
+  const startCamera = useCallback(async (deviceId: string): Promise<CameraError | null> => {
+    if (!videoRef.current) {
+      return { kind: 'unknown', message: 'Video element reference is not available.' };
     }
-  };
+    setDetection(null);
+    setSelectedDeviceId(deviceId);
 
-  const handleStartScan = useCallback(async (deviceIdOverride?: string) => {
-    if (!videoRef.current) {
-      setError("Video element reference is not available.");
-      return;
+    // Stop previous instance cleanly before creating a new one
+    releaseScanner();
+
+    activeDeviceIdRef.current = deviceId;
+    // onDetection runs right before onScanSuccess for the same frame
+    let lastDetection: Detection | null = null;
+    const options: FrameScannerOptions = {
+      videoElement: videoRef.current,
+      deviceId,
+      onScanSuccess: result => handleScanSuccess(result, lastDetection),
+      // Start failures are also thrown by start() and handled below
+      onError: () => {},
+      stopOnScan: propsRef.current.mode === 'single',
+      scanInterval,
+      // Pass remoteLog directly. Its signature now matches LoggerCallback.
+      logger: remoteLog,
+      // Decode only inside the aiming frame; report positions for the overlay
+      regionOfInterest,
+      onDetection: d => {
+        lastDetection = d;
+        setDetection(d);
+      }
+    };
+
+    try {
+      remoteLog('Client', LogLevel.INFO, 'QRScanner', "Initializing FrameScanner...");
+      const scanner = new FrameScanner(options);
+      scannerServiceRef.current = scanner;
+      lastScannerRef.current = scanner;
+      remoteLog('Client', LogLevel.INFO, 'QRScanner', "FrameScanner initialized. Calling start()...");
+      await scanner.start();
+      remoteLog('Client', LogLevel.INFO, 'QRScanner', "Scanner started successfully via start().");
+      const track = getVideoTrack(videoRef.current);
+      if (track) trackScannersRef.current.set(track, scanner);
+      setActiveTrack(track);
+      lastDeviceRef.current = {
+        deviceId: track?.getSettings().deviceId || deviceId,
+        label: track?.label || devices.find(d => d.deviceId === deviceId)?.label || '',
+      };
+      return null;
+    } catch (err) {
+      remoteLog('Client', LogLevel.ERROR, 'QRScanner', `Error initializing or starting FrameScanner`, err);
+      scannerServiceRef.current = null;
+      return classifyCameraError(err);
     }
+  }, [devices, handleScanSuccess, releaseScanner, regionOfInterest, scanInterval]);
+
+  const handleStopScan = useCallback(() => {
+    remoteLog('Client', LogLevel.INFO, 'QRScanner', "Stopping scan.");
+    releaseScanner();
+    send({ type: 'STOP' });
+  }, [releaseScanner, send]);
+
+  const handleStartScan = useCallback(async (deviceIdOverride?: string) => {
     // Determine the device ID to use for starting the scan
     let deviceIdToUse = deviceIdOverride ?? selectedDeviceId;
     if (!deviceIdToUse && devices.length > 0) {
       deviceIdToUse = devices[0].deviceId; // Use first available if none selected (even if ID is empty string)
       remoteLog('Client', LogLevel.INFO, 'QRScanner', `No specific device selected, using first available deviceId: '${deviceIdToUse}'`);
     }
-
-    // Check if we have a usable device ID (covers case where devices array was initially empty)
-    if (deviceIdToUse === undefined || deviceIdToUse === null) { // Allow empty string '' as it often means default device
-      setError("No camera device available or selected.");
-      remoteLog('Client', LogLevel.WARN, 'QRScanner', "Start scan aborted: No usable device ID found.");
-      return;
-    }
-    if (isScanning) {
+    // Checked via refs so a stop() directly followed by start() (switchCamera) is not rejected
+    if (isStartingRef.current || isCameraActive(machineRef.current.status)) {
       remoteLog('Client', LogLevel.WARN, 'QRScanner', "Start scan called while already scanning.");
       return;
     }
 
     remoteLog('Client', LogLevel.INFO, 'QRScanner', `Starting scan with deviceId: '${deviceIdToUse}'`);
-    setError(null);
-    setScanResult(null);
-    setIsScanning(true);
-
-    // Stop previous instance cleanly before creating a new one
-    if (scannerServiceRef.current) {
-      scannerServiceRef.current.stop();
-      scannerServiceRef.current = null;
-    }
-
-    const options: ScannerOptions = {
-      videoElement: videoRef.current,
-      deviceId: deviceIdToUse,
-      onScanSuccess: handleScanSuccess,
-      onError: handleError,
-      stopOnScan: false, // Keep scanning after first result
-      // Pass remoteLog directly. Its signature now matches LoggerCallback.
-      logger: remoteLog
-    };
-
+    isStartingRef.current = true;
+    send({ type: 'START' });
     try {
-      remoteLog('Client', LogLevel.INFO, 'QRScanner', "Initializing ScannerService...");
-      scannerServiceRef.current = new ScannerService(options);
-      remoteLog('Client', LogLevel.INFO, 'QRScanner', "ScannerService initialized. Calling start()...");
-      await scannerServiceRef.current.start();
-      remoteLog('Client', LogLevel.INFO, 'QRScanner', "Scanner started successfully via start().");
+      const startError = await startCamera(deviceIdToUse);
+      if (machineRef.current.status !== 'starting') {
+        // Stopped or unmounted while the camera was starting
+        if (!startError) releaseScanner();
+        return;
+      }
+      if (startError) {
+        fail(startError);
+        return;
+      }
+      send({ type: 'STARTED' });
+      propsRef.current.onDeviceChange?.({ deviceId: lastDeviceRef.current.deviceId ?? deviceIdToUse, label: lastDeviceRef.current.label ?? '' });
       // Attempt to refresh device list again after start, hoping for better labels
       try {
         const videoDevices = await CameraManager.listDevices();
-        // remoteLog('Client', LogLevel.DEBUG, 'QRScanner', "Re-fetched devices after start", videoDevices); // Keep DEBUG commented
         // Check if labels are actually better now
         const hasBetterLabels = videoDevices.some(d => d.label && d.label !== '');
         if (hasBetterLabels) {
-          setDevices(videoDevices);
-          // Update device list if better labels were found
+          applyDevices(videoDevices);
         }
       } catch (refreshError) {
         remoteLog('Client', LogLevel.WARN, 'QRScanner', `Failed to re-fetch devices after start`, refreshError);
       }
-      // isScanning state is managed by callbacks (handleError, handleScanSuccess if stopOnScan=true) or handleStopScan
-    } catch (err) {
-      remoteLog('Client', LogLevel.ERROR, 'QRScanner', `Error initializing or starting ScannerService`, err);
-      // Catch synchronous errors during initialization or start
-      handleError(err instanceof Error ? err : new Error(String(err)));
-      setIsScanning(false);
+    } finally {
+      isStartingRef.current = false;
+    }
+  }, [devices, selectedDeviceId, applyDevices, fail, releaseScanner, send, startCamera]);
+
+  /**
+   * Restarts the last camera after its track ended or the tab became visible again.
+   * Expects the state to be 'recovering'; gives up when it changes (stop, hidden tab).
+   * Falls back to the preferred remaining camera if the last one is gone.
+   */
+  const recover = useCallback(async () => {
+    if (isRecoveringRef.current) return;
+    isRecoveringRef.current = true;
+    releaseScanner();
+    let lastError: CameraError = { kind: 'not-found', message: 'The camera is no longer available.' };
+    try {
+      for (let attempt = 1; attempt <= MAX_RECOVERY_ATTEMPTS; attempt++) {
+        if (machineRef.current.status !== 'recovering') return;
+        remoteLog('Client', LogLevel.INFO, 'QRScanner', `Recovering camera (attempt ${attempt}/${MAX_RECOVERY_ATTEMPTS})`);
+        let videoDevices: MediaDeviceInfo[] = [];
+        try {
+          videoDevices = await CameraManager.listDevices();
+          applyDevices(videoDevices);
+        } catch (listError) {
+          remoteLog('Client', LogLevel.WARN, 'QRScanner', 'Failed to list devices during recovery', listError);
+        }
+        if (machineRef.current.status !== 'recovering') return;
+        const target = resolvePreferredDevice(videoDevices, lastDeviceRef.current);
+        if (target) {
+          const startError = await startCamera(target.deviceId);
+          if (machineRef.current.status !== 'recovering') {
+            if (!startError) releaseScanner();
+            return;
+          }
+          if (!startError) {
+            send({ type: 'STARTED' });
+            propsRef.current.onDeviceChange?.({ deviceId: lastDeviceRef.current.deviceId ?? target.deviceId, label: lastDeviceRef.current.label ?? '' });
+            return;
+          }
+          lastError = startError;
+          // Retrying won't help until the user changes the browser settings
+          if (startError.kind === 'permission-denied') break;
+        }
+        await delay(RECOVERY_DELAY_MS * attempt);
+      }
+      if (machineRef.current.status === 'recovering') fail(lastError);
+    } finally {
+      isRecoveringRef.current = false;
+    }
+  }, [applyDevices, fail, releaseScanner, send, startCamera]);
+
+  const handleSwitchCamera = useCallback(async (deviceId?: string) => {
+    let nextId = deviceId;
+    if (nextId === undefined) {
+      if (devices.length === 0) return;
+      const currentIndex = devices.findIndex(d => d.deviceId === selectedDeviceId);
+      nextId = devices[(currentIndex + 1) % devices.length].deviceId;
     }
-  }, [devices, handleError, handleScanSuccess, selectedDeviceId, isScanning]);
+    remoteLog('Client', LogLevel.INFO, 'QRScanner', `Switching camera to deviceId: '${nextId}'`);
+    handleStopScan();
+    await handleStartScan(nextId);
+  }, [devices, selectedDeviceId, handleStopScan, handleStartScan]);
+
+  // Track ended (unplugged, revoked, taken by the OS) or muted (no frames for a while)
+  useEffect(() => {
+    if (!activeTrack) return;
+    const handleEnded = () => {
+      remoteLog('Client', LogLevel.WARN, 'QRScanner', 'Camera track ended.');
+      send({ type: 'TRACK_LOST' });
+      void recover();
+    };
+    const handleMute = () => send({ type: 'PAUSE', reason: 'muted' });
+    const handleUnmute = () => send({ type: 'RESUME' });
+    activeTrack.addEventListener('ended', handleEnded);
+    activeTrack.addEventListener('mute', handleMute);
+    activeTrack.addEventListener('unmute', handleUnmute);
+    return () => {
+      activeTrack.removeEventListener('ended', handleEnded);
+      activeTrack.removeEventListener('mute', handleMute);
+      activeTrack.removeEventListener('unmute', handleUnmute);
+    };
+  }, [activeTrack, recover, send]);
+
+  // Release the camera while the page is hidden and restart it when it is shown again
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const { status, pauseReason } = machineRef.current;
+      if (document.hidden) {
+        if (status === 'scanning' || status === 'paused' || status === 'recovering') {
+          remoteLog('Client', LogLevel.INFO, 'QRScanner', 'Page hidden, releasing camera.');
+          releaseScanner();
+          send({ type: 'PAUSE', reason: 'hidden' });
+        }
+      } else if (status === 'paused' && pauseReason === 'hidden') {
+        remoteLog('Client', LogLevel.INFO, 'QRScanner', 'Page visible, resuming camera.');
+        send({ type: 'RESUME' });
+        void recover();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [recover, releaseScanner, send]);
+
+  // Hot-plug: refresh the list, recover when the active camera vanished, start when one appears
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    const handleMediaDeviceChange = async () => {
+      let videoDevices: MediaDeviceInfo[];
+      try {
+        videoDevices = await CameraManager.listDevices();
+      } catch (listError) {
+        remoteLog('Client', LogLevel.WARN, 'QRScanner', 'Failed to list devices after devicechange', listError);
+        return;
+      }
+      remoteLog('Client', LogLevel.INFO, 'QRScanner', `Camera list changed: ${videoDevices.length} devices`);
+      applyDevices(videoDevices);
+      const { status, error: machineError } = machineRef.current;
+      const activeId = lastDeviceRef.current.deviceId;
+      const preferred = resolvePreferredDevice(videoDevices, lastDeviceRef.current.deviceId ? lastDeviceRef.current : {
+        deviceId: propsRef.current.initialDeviceId,
+        label: propsRef.current.initialDeviceLabel,
+      });
+      if ((status === 'scanning' || status === 'paused') && activeId && !videoDevices.some(d => d.deviceId === activeId)) {
+        // Usually the track's ended event arrives first; this covers browsers that don't fire it
+        send({ type: 'TRACK_LOST' });
+        void recover();
+      } else if (status === 'error' && machineError?.kind === 'not-found' && preferred) {
+        if (propsRef.current.autoStart) {
+          void handleStartScan(preferred.deviceId);
+        } else {
+          setSelectedDeviceId(preferred.deviceId);
+          send({ type: 'STOP' });
+        }
+      } else if (!isCameraActive(status)) {
+        setSelectedDeviceId(current => (videoDevices.some(d => d.deviceId === current) ? current : preferred?.deviceId ?? ''));
+      }
+    };
+    mediaDevices.addEventListener('devicechange', handleMediaDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleMediaDeviceChange);
+  }, [applyDevices, handleStartScan, recover, send]);
+
+  const getStats = useCallback(() => lastScannerRef.current?.getStats() ?? null, []);
+  // Stats of the scanner that ran a given track: the final report of a track is sent after the
+  // next scanner has already been started (camera switch, recover, restart)
+  const getTrackStats = useCallback((track: MediaStreamTrack) => trackScannersRef.current.get(track)?.getStats() ?? null, []);
+
+  // Periodic decode/track telemetry while a camera is running
+  useScanTelemetry(activeTrack, getTrackStats, telemetryIntervalMs);
+
+  // Apply a changed region of interest to the running scanner
+  useEffect(() => {
+    scannerServiceRef.current?.setRegionOfInterest(regionOfInterest);
+  }, [regionOfInterest]);
+
+  useImperativeHandle(ref, () => ({
+    start: handleStartScan,
+    stop: handleStopScan,
+    switchCamera: handleSwitchCamera,
+    getStats,
+  }), [handleStartScan, handleStopScan, handleSwitchCamera, getStats]);
 
   // Auto-start once when cameras are loaded and a device is selected
   useEffect(() => {
-    if (!isLoadingCameras && devices.length > 0 && !isScanning && !hasAutoStartedRef.current) {
+    if (autoStart && state === 'idle' && devices.length > 0 && !hasAutoStartedRef.current) {
       const idToStart = selectedDeviceId || devices[0].deviceId;
       hasAutoStartedRef.current = true;
       void handleStartScan(idToStart);
     }
-  }, [isLoadingCameras, devices, selectedDeviceId, isScanning, handleStartScan]);
+  }, [autoStart, state, devices, selectedDeviceId, handleStartScan]);
 
-  const handleStopScan = () => {
-    remoteLog('Client', LogLevel.INFO, 'QRScanner', "Stop scan button clicked.");
-    if (scannerServiceRef.current) {
-      scannerServiceRef.current.stop();
-      scannerServiceRef.current = null;
-    }
-    setIsScanning(false);
-    // Optionally clear result on manual stop: setScanResult(null);
+  // --- Event Handlers ---
+  const handleDeviceChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    // Picking a camera (re)starts the scan with it
+    void handleSwitchCamera(event.target.value);
   };
 
-  // Toggle handler combining start/stop into a single control
+  const isActive = isCameraActive(state);
+
+  // Toggle handler combining start/stop into a single control (start doubles as retry after an error)
   const handleToggleScan = () => {
-    if (isScanning) {
+    if (isActive) {
       handleStopScan();
     } else {
       void handleStartScan();
     }
   };
 
-  // Removed inline debug screenshot implementation; now provided by library component
-
-  // console.log(`[QRScanner] Rendering...`); // Keep render log commented
-
   return (
     <div>
-      <h2>QR Code Scanner</h2>
+      {header}
 
       {/* Controls row: dropdown and CTA side-by-side */}
       <div className="controls-row">
@@ -223,45 +633,48 @@ const QRScanner: React.FC = () => {
           id="camera-select"
           value={selectedDeviceId}
           onChange={handleDeviceChange}
-          disabled={isScanning || isLoadingCameras || devices.length === 0}
-          aria-label="Select Camera"
+          disabled={state === 'priming' || state === 'starting' || state === 'recovering' || devices.length === 0}
+          aria-label={t('scanner.selectCamera')}
           className="camera-select"
         >
-          {isLoadingCameras && <option>Loading cameras...</option>}
-          {!isLoadingCameras && devices.length === 0 && <option>No cameras found</option>}
+          {state === 'priming' && <option>{t('scanner.loadingCameras')}</option>}
+          {state !== 'priming' && devices.length === 0 && <option>{t('scanner.noCameras')}</option>}
           {devices.map(device => (
             <option key={device.deviceId} value={device.deviceId}>
-              {device.label || `Camera`} {/* Display generic 'Camera' if no label */}
+              {device.label || t('scanner.camera')} {/* Display generic 'Camera' if no label */}
             </option>
           ))}
         </select>
         <div className="action-buttons">
           {(() => {
-            const disabled = isLoadingCameras || (devices.length === 0 && !isScanning);
+            const disabled = state === 'priming' || state === 'starting' || (devices.length === 0 && !isActive);
+            const label = t(isActive ? 'scanner.stop' : state === 'error' ? 'scanner.retry' : 'scanner.start');
             return (
               <div style={{ display: 'flex', gap: 8 }}>
                 <button
                   onClick={handleToggleScan}
                   disabled={disabled}
-                  aria-label={isScanning ? 'Stop Scan' : 'Start Scan'}
-                  title={isScanning ? 'Stop Scan' : 'Start Scan'}
-                  className={`icon-button ${isScanning ? 'default' : 'secondary'}`}
+                  aria-label={label}
+                  title={label}
+                  className={`icon-button ${isActive ? 'default' : 'secondary'}`}
                 >
-                  {isScanning ? (
-                    <img src={stopIconUrl} width={24} height={24} alt="Stop" />
+                  {isActive ? (
+                    <img src={stopIconUrl} width={24} height={24} alt={t('scanner.stopIcon')} />
                   ) : (
-                    <img src={startIconUrl} width={24} height={24} alt="Start" />
+                    <img src={startIconUrl} width={24} height={24} alt={t('scanner.startIcon')} />
                   )}
                 </button>
               </div>
             );
           })()}
         </div>
+        {toolbar}
       </div>
 
-      {/* Camera Frame (always visible placeholder for future camera area) */}
+      {/* Camera Frame with aiming/detection overlay */}
       <div
         style={{
+          position: 'relative',
           width: '100%',
           maxWidth: '400px',
           margin: '10px auto',
@@ -281,17 +694,27 @@ const QRScanner: React.FC = () => {
           autoPlay    // Try to autoplay
           muted={true} // Muting often required for autoplay
         />
+        {state === 'scanning' && (
+          <ScanOverlay videoRef={videoRef} regionOfInterest={regionOfInterest} detection={detection} />
+        )}
+        {overlay}
       </div>
 
-      {/* Status and Result Display */}
-      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
-      {scanResult && <p>Last Scan Result: {scanResult}</p>}
-      {isScanning && !scanResult && <p>Scanning...</p>}
+      {/* Live camera controls (only those the active track supports) */}
+      {showCameraControls && <CameraControls track={activeTrack} />}
+
+      {showDiagnostics && (
+        <DiagnosticsPanel track={activeTrack} getStats={getStats} devices={devices} selectedDeviceId={selectedDeviceId} />
+      )}
 
-      {/* Floating debug screenshot button from library */}
-      <DebugScreenshotButton source="qr-scanner-client" componentName="DebugScreenshot" />
+      {/* Status Display */}
+      {renderStatus(state, error, { errorKind: machine.error?.kind ?? null, pauseReason: machine.pauseReason })}
+
+      {children}
     </div>
   );
-};
+});
+
+QRScanner.displayName = 'QRScanner';
 
-export default QRScanner;
\ No newline at end of file
+export default QRScanner;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { ScanRecord, scansToCsv, scansToJson } from '../utils/scanHistory';
+import { downloadTextFile } from '../utils/download';
+import { WebhookDelivery, describeDelivery, scanKey } from '../utils/webhooks';
+import { useI18n } from '../hooks/useI18n';
+import { I18n } from '../i18n';
+
+// Helper: Short description of where a scan came from
+function describeOrigin(scan: ScanRecord, t: I18n['t']): string {
+  if (scan.source === 'image') return t('history.originImage');
+  if (scan.source === 'hid') return t('history.originHid');
+  return scan.deviceId ? t('history.originCamera', { id: scan.deviceId.slice(0, 8) }) : t('history.originDefaultCamera');
+}
+
+interface ScanHistoryProps {
+  scans: ScanRecord[];
+  onDelete: (id: number) => void;
+  onClear: () => void;
+  /** Webhook delivery state per scan (keyed by scanKey). */
+  deliveries?: Record<string, WebhookDelivery[]>;
+}
+
+const ScanHistory: React.FC<ScanHistoryProps> = ({ scans, onDelete, onClear, deliveries = {} }) => {
+  const [query, setQuery] = useState<string>('');
+  const { t, formatDateTime } = useI18n();
+
+  // Case-insensitive match on the value and the device id
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return scans;
+    return scans.filter(s => s.value.toLowerCase().includes(q) || s.deviceId.toLowerCase().includes(q));
+  }, [scans, query]);
+
+  const exportName = (ext: string) => `scan-history-${new Date().toISOString().replace(/[:.]/g, '-')}.${ext}`;
+
+  const handleExportCsv = () => downloadTextFile(exportName('csv'), scansToCsv(filtered), 'text/csv');
+  const handleExportJson = () => downloadTextFile(exportName('json'), scansToJson(filtered), 'application/json');
+
+  const handleClear = () => {
+    if (window.confirm(t('history.confirmClear'))) {
+      onClear();
+    }
+  };
+
+  return (
+    <section className="scan-history">
+      <h3>{t('history.title', { count: scans.length })}</h3>
+      <div className="scan-history-toolbar">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('history.search')}
+          aria-label={t('history.searchLabel')}
+        />
+        <button className="default" onClick={handleExportCsv} disabled={filtered.length === 0}>{t('history.exportCsv')}</button>
+        <button className="default" onClick={handleExportJson} disabled={filtered.length === 0}>{t('history.exportJson')}</button>
+        <button onClick={handleClear} disabled={scans.length === 0}>{t('history.clear')}</button>
+      </div>
+      {filtered.length === 0 ? (
+        <p>{t(scans.length === 0 ? 'history.empty' : 'history.noMatch')}</p>
+      ) : (
+        <ul className="scan-history-list">
+          {filtered.map(scan => (
+            <li key={scan.id ?? `pending-${scan.timestamp}`}>
+              <div className="scan-history-entry">
+                <span className="scan-history-value">{scan.value}</span>
+                <small>
+                  {formatDateTime(scan.timestamp)} · {describeOrigin(scan, t)}
+                </small>
+                {deliveries[scanKey(scan)]?.map(d => (
+                  <small key={d.endpointId} className={`webhook-status ${d.status}`}>
+                    {d.endpointName}: {t(describeDelivery(d))}
+                  </small>
+                ))}
+              </div>
+              <button
+                onClick={() => scan.id !== undefined && onDelete(scan.id)}
+                disabled={scan.id === undefined}
+                aria-label={t('history.delete')}
+                title={t('history.delete')}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ScanHistory;
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import { Detection } from '../utils/frameScanner';
+import { RegionOfInterest, computeCoverTransform, videoToElement } from '../utils/overlayGeometry';
+
+interface ScanOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Region drawn as the aiming frame; null draws no frame. */
+  regionOfInterest: RegionOfInterest | null;
+  /** Latest detection; its polygon is drawn for HIGHLIGHT_MS. */
+  detection: Detection | null;
+}
+
+// How long a detected code stays highlighted
+const HIGHLIGHT_MS = 1000;
+
+/**
+ * Canvas layered over the video that dims everything outside the region of interest
+ * and outlines the last detected code, mapped through the `object-fit: cover` crop.
+ */
+const ScanOverlay: React.FC<ScanOverlayProps> = ({ videoRef, regionOfInterest, detection }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      const ratio = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+      }
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, height);
+
+      if (regionOfInterest) {
+        const x = regionOfInterest.x * width;
+        const y = regionOfInterest.y * height;
+        const w = regionOfInterest.width * width;
+        const h = regionOfInterest.height * height;
+        // Dim outside the region (even-odd fill leaves the hole clear)
+        context.fillStyle = 'rgba(0, 0, 0, 0.45)';
+        context.beginPath();
+        context.rect(0, 0, width, height);
+        context.rect(x, y, w, h);
+        context.fill('evenodd');
+        context.strokeStyle = '#e0e0e0';
+        context.lineWidth = 2;
+        context.strokeRect(x, y, w, h);
+      }
+
+      const video = videoRef.current;
+      if (detection && video && Date.now() - detection.timestamp < HIGHLIGHT_MS) {
+        const t = computeCoverTransform(detection.videoWidth, detection.videoHeight, width, height);
+        const points = detection.corners.map(p => videoToElement(p, t));
+        context.strokeStyle = '#4caf50';
+        context.fillStyle = 'rgba(76, 175, 80, 0.25)';
+        context.lineWidth = 3;
+        context.beginPath();
+        points.forEach((p, idx) => (idx === 0 ? context.moveTo(p.x, p.y) : context.lineTo(p.x, p.y)));
+        context.closePath();
+        context.fill();
+        context.stroke();
+      }
+    };
+
+    draw();
+    // Redraw on layout changes, and once more to clear the highlight when it expires
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    const clearTimer = detection ? setTimeout(draw, HIGHLIGHT_MS) : null;
+    return () => {
+      observer.disconnect();
+      if (clearTimer !== null) clearTimeout(clearTimer);
+    };
+  }, [videoRef, regionOfInterest, detection]);
+
+  return <canvas ref={canvasRef} className="scan-overlay" aria-hidden="true" />;
+};
+
+export default ScanOverlay;
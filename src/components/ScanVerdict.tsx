@@ -0,0 +1,29 @@
+import React from 'react';
+import { ValidationResult } from '../utils/validation';
+import { useI18n } from '../hooks/useI18n';
+
+interface ScanVerdictProps {
+  result: ValidationResult;
+}
+
+/**
+ * Accept/reject line for a validated value: the matching rule, or every rule with its failure reason.
+ */
+const ScanVerdict: React.FC<ScanVerdictProps> = ({ result }) => {
+  const { t } = useI18n();
+
+  let reason: string;
+  if (!result.accepted) {
+    reason = result.failures.map(failure => t('validation.failure', { rule: failure.rule, reason: t(failure.reason) })).join('; ');
+  } else {
+    reason = result.rule !== null ? t('validation.matches', { rule: result.rule }) : t('validation.noRulesActive');
+  }
+
+  return (
+    <p className={`scan-verdict ${result.accepted ? 'accepted' : 'rejected'}`}>
+      {t(result.accepted ? 'app.accepted' : 'app.rejected', { reason })}
+    </p>
+  );
+};
+
+export default ScanVerdict;
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef } from 'react';
+import { ScannerSettings, FeedbackSettings } from '../utils/settings';
+import { KeyboardWedgeSettings, WedgeTerminator } from '../utils/keyboardWedge';
+import ValidationRulesEditor from './ValidationRulesEditor';
+import WebhookSettings from './WebhookSettings';
+import { useI18n } from '../hooks/useI18n';
+
+interface SettingsDialogProps {
+  open: boolean;
+  settings: ScannerSettings;
+  onChange: (changes: Partial<ScannerSettings>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal dialog to edit and reset the persisted scanner settings. Changes apply immediately.
+ */
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, settings, onChange, onReset, onClose }) => {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const { t } = useI18n();
+
+  // Sync the native dialog with the `open` prop
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  const setFeedback = (changes: Partial<FeedbackSettings>) => {
+    onChange({ feedback: { ...settings.feedback, ...changes } });
+  };
+
+  const setKeyboardWedge = (changes: Partial<KeyboardWedgeSettings>) => {
+    onChange({ keyboardWedge: { ...settings.keyboardWedge, ...changes } });
+  };
+
+  const handleReset = () => {
+    if (window.confirm(t('settings.confirmReset'))) {
+      onReset();
+    }
+  };
+
+  return (
+    <dialog ref={dialogRef} className="settings-dialog" onClose={onClose}>
+      <h3>{t('settings.title')}</h3>
+      <label>
+        <input type="checkbox" checked={settings.autoStart} onChange={e => onChange({ autoStart: e.target.checked })} />
+        {t('settings.autoStart')}
+      </label>
+      <label>
+        <input type="checkbox" checked={settings.stopOnScan} onChange={e => onChange({ stopOnScan: e.target.checked })} />
+        {t('settings.stopOnScan')}
+      </label>
+      <label>
+        {t('settings.cooldown')}
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={settings.cooldownMs / 1000}
+          onChange={e => onChange({ cooldownMs: Math.max(0, Number(e.target.value) * 1000) })}
+        />
+        {t('settings.seconds')}
+      </label>
+      <fieldset>
+        <legend>{t('settings.feedback')}</legend>
+        <label>
+          <input type="checkbox" checked={settings.feedback.muted} onChange={e => setFeedback({ muted: e.target.checked })} />
+          {t('settings.muteAll')}
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.feedback.sound} onChange={e => setFeedback({ sound: e.target.checked })} />
+          {t('settings.sound')}
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.feedback.vibration} onChange={e => setFeedback({ vibration: e.target.checked })} />
+          {t('settings.vibration')}
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.feedback.flash} onChange={e => setFeedback({ flash: e.target.checked })} />
+          {t('settings.flash')}
+        </label>
+        <label>
+          {t('settings.volume')}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={settings.feedback.volume}
+            disabled={!settings.feedback.sound}
+            onChange={e => setFeedback({ volume: Number(e.target.value) })}
+          />
+        </label>
+        <label>
+          <input type="checkbox" checked={settings.feedback.duplicates} onChange={e => setFeedback({ duplicates: e.target.checked })} />
+          {t('settings.signalDuplicates')}
+        </label>
+        <label>
+          {t('settings.suppression')}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={settings.feedback.suppressionMs / 1000}
+            onChange={e => setFeedback({ suppressionMs: Math.max(0, Number(e.target.value) * 1000) })}
+          />
+          {t('settings.seconds')}
+        </label>
+      </fieldset>
+      <fieldset>
+        <legend>{t('settings.keyboardWedge')}</legend>
+        <label>
+          <input type="checkbox" checked={settings.keyboardWedge.enabled} onChange={e => setKeyboardWedge({ enabled: e.target.checked })} />
+          {t('settings.wedgeEnabled')}
+        </label>
+        <label>
+          {t('settings.wedgeInterval')}
+          <input
+            type="number"
+            min={5}
+            max={500}
+            value={settings.keyboardWedge.maxInterKeyMs}
+            onChange={e => setKeyboardWedge({ maxInterKeyMs: Math.max(5, Number(e.target.value)) })}
+          />
+          {t('settings.milliseconds')}
+        </label>
+        <label>
+          {t('settings.wedgeMinLength')}
+          <input
+            type="number"
+            min={1}
+            value={settings.keyboardWedge.minLength}
+            onChange={e => setKeyboardWedge({ minLength: Math.max(1, Math.round(Number(e.target.value))) })}
+          />
+        </label>
+        <label>
+          {t('settings.wedgePrefix')}
+          <input type="text" className="wedge-affix" value={settings.keyboardWedge.prefix} onChange={e => setKeyboardWedge({ prefix: e.target.value })} />
+          {t('settings.wedgeSuffix')}
+          <input type="text" className="wedge-affix" value={settings.keyboardWedge.suffix} onChange={e => setKeyboardWedge({ suffix: e.target.value })} />
+        </label>
+        <label>
+          {t('settings.wedgeTerminator')}
+          <select
+            value={settings.keyboardWedge.terminator}
+            onChange={e => setKeyboardWedge({ terminator: e.target.value as WedgeTerminator })}
+          >
+            <option value="Enter">{t('settings.terminatorEnter')}</option>
+            <option value="Tab">{t('settings.terminatorTab')}</option>
+            <option value="none">{t('settings.terminatorNone')}</option>
+          </select>
+        </label>
+      </fieldset>
+      <ValidationRulesEditor rules={settings.validationRules} onChange={validationRules => onChange({ validationRules })} />
+      <WebhookSettings endpoints={settings.webhooks} onChange={webhooks => onChange({ webhooks })} />
+      <p className="settings-camera">
+        {t('settings.rememberedCamera', { camera: settings.lastDeviceLabel || settings.lastDeviceId || t('settings.noCamera') })}
+        {(settings.lastDeviceId || settings.lastDeviceLabel) && (
+          <button className="default link-button" onClick={() => onChange({ lastDeviceId: '', lastDeviceLabel: '' })}>
+            {t('settings.forget')}
+          </button>
+        )}
+      </p>
+      <div className="settings-actions">
+        <button onClick={handleReset}>{t('settings.reset')}</button>
+        <button className="default" onClick={onClose}>{t('settings.close')}</button>
+      </div>
+    </dialog>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { ValidationRule, ValidationRuleKind, createRule, validateScan } from '../utils/validation';
+import { useI18n } from '../hooks/useI18n';
+import ScanVerdict from './ScanVerdict';
+import { MessageKey } from '../i18n';
+
+interface ValidationRulesEditorProps {
+  rules: ValidationRule[];
+  onChange: (rules: ValidationRule[]) => void;
+}
+
+const KIND_LABELS: Record<ValidationRuleKind, MessageKey> = {
+  regex: 'validation.kindRegex',
+  gtin: 'validation.kindGtin',
+  jsonSchema: 'validation.kindJsonSchema',
+};
+
+/**
+ * Edits the validation rules (a result is accepted if any enabled rule matches)
+ * and lets the user try a sample value against them.
+ */
+const ValidationRulesEditor: React.FC<ValidationRulesEditorProps> = ({ rules, onChange }) => {
+  const [newKind, setNewKind] = useState<ValidationRuleKind>('regex');
+  const [sample, setSample] = useState<string>('');
+  const { t } = useI18n();
+
+  const updateRule = (id: string, changes: Partial<ValidationRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } as ValidationRule : rule)));
+  };
+
+  const removeRule = (id: string) => {
+    onChange(rules.filter(rule => rule.id !== id));
+  };
+
+  const sampleResult = sample ? validateScan(sample, rules) : null;
+
+  return (
+    <fieldset className="validation-rules">
+      <legend>{t('validation.title')}</legend>
+      {rules.length === 0 && <p className="validation-hint">{t('validation.noRules')}</p>}
+      {rules.map(rule => (
+        <div key={rule.id} className="validation-rule">
+          <div className="validation-rule-header">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+              aria-label={t('validation.ruleEnabled')}
+            />
+            <input
+              type="text"
+              value={rule.name}
+              onChange={e => updateRule(rule.id, { name: e.target.value })}
+              aria-label={t('validation.ruleName')}
+            />
+            <button className="default link-button" onClick={() => removeRule(rule.id)}>{t('validation.remove')}</button>
+          </div>
+          <small>{t(KIND_LABELS[rule.kind])}</small>
+          {rule.kind === 'regex' && (
+            <div className="validation-rule-params">
+              <input
+                type="text"
+                value={rule.pattern}
+                placeholder="^ASSET-\d{6}$"
+                onChange={e => updateRule(rule.id, { pattern: e.target.value })}
+                aria-label={t('validation.pattern')}
+              />
+              <input
+                type="text"
+                value={rule.flags ?? ''}
+                placeholder={t('validation.flags')}
+                className="validation-flags"
+                onChange={e => updateRule(rule.id, { flags: e.target.value })}
+                aria-label={t('validation.flags')}
+              />
+            </div>
+          )}
+          {rule.kind === 'jsonSchema' && (
+            <textarea
+              value={rule.schema}
+              rows={5}
+              onChange={e => updateRule(rule.id, { schema: e.target.value })}
+              aria-label={t('validation.kindJsonSchema')}
+            />
+          )}
+        </div>
+      ))}
+      <div className="validation-add">
+        <select value={newKind} onChange={e => setNewKind(e.target.value as ValidationRuleKind)} aria-label={t('validation.ruleType')}>
+          {(Object.keys(KIND_LABELS) as ValidationRuleKind[]).map(kind => (
+            <option key={kind} value={kind}>{t(KIND_LABELS[kind])}</option>
+          ))}
+        </select>
+        <button onClick={() => onChange([...rules, createRule(newKind)])}>{t('validation.addRule')}</button>
+      </div>
+      <label>
+        {t('validation.test')}
+        <input type="text" value={sample} onChange={e => setSample(e.target.value)} placeholder={t('validation.sample')} />
+      </label>
+      {sampleResult && <ScanVerdict result={sampleResult} />}
+    </fieldset>
+  );
+};
+
+export default ValidationRulesEditor;
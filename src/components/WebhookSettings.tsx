@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { getClientId } from '../utils/remoteLog';
+import { WebhookDelivery, WebhookEndpoint, createWebhookEndpoint, deliverWebhook, describeDelivery } from '../utils/webhooks';
+import { useI18n } from '../hooks/useI18n';
+
+const TEMPLATE_PLACEHOLDERS = '{{value}}, {{timestamp}}, {{clientId}}, {{deviceId}}, {{source}}';
+
+interface WebhookSettingsProps {
+  endpoints: WebhookEndpoint[];
+  onChange: (endpoints: WebhookEndpoint[]) => void;
+}
+
+/**
+ * Edits the webhook endpoints accepted scans are forwarded to, with a test send per endpoint.
+ */
+const WebhookSettings: React.FC<WebhookSettingsProps> = ({ endpoints, onChange }) => {
+  // Result of the last test send per endpoint id
+  const [tests, setTests] = useState<Record<string, WebhookDelivery>>({});
+  const { t } = useI18n();
+
+  const updateEndpoint = (id: string, changes: Partial<WebhookEndpoint>) => {
+    onChange(endpoints.map(e => (e.id === id ? { ...e, ...changes } : e)));
+  };
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setTests(prev => ({ ...prev, [endpoint.id]: { endpointId: endpoint.id, endpointName: endpoint.name, status: 'pending', attempts: 0 } }));
+    const delivery = await deliverWebhook(endpoint, {
+      value: 'TEST-0001',
+      timestamp: new Date().toISOString(),
+      clientId: getClientId(),
+      deviceId: '',
+      source: 'camera',
+    });
+    setTests(prev => ({ ...prev, [endpoint.id]: delivery }));
+  };
+
+  return (
+    <fieldset className="webhook-settings">
+      <legend>{t('webhooks.title')}</legend>
+      {endpoints.length === 0 && <p className="validation-hint">{t('webhooks.none')}</p>}
+      {endpoints.map(endpoint => (
+        <div key={endpoint.id} className="webhook-endpoint">
+          <div className="validation-rule-header">
+            <input
+              type="checkbox"
+              checked={endpoint.enabled}
+              onChange={e => updateEndpoint(endpoint.id, { enabled: e.target.checked })}
+              aria-label={t('webhooks.enabled')}
+            />
+            <input
+              type="text"
+              value={endpoint.name}
+              onChange={e => updateEndpoint(endpoint.id, { name: e.target.value })}
+              aria-label={t('webhooks.name')}
+            />
+            <button className="default link-button" onClick={() => onChange(endpoints.filter(e => e.id !== endpoint.id))}>
+              {t('webhooks.remove')}
+            </button>
+          </div>
+          <label>
+            {t('webhooks.url')}
+            <input type="url" value={endpoint.url} onChange={e => updateEndpoint(endpoint.id, { url: e.target.value })} />
+          </label>
+          <label className="webhook-block">
+            {t('webhooks.headers')}
+            <textarea rows={2} value={endpoint.headers} onChange={e => updateEndpoint(endpoint.id, { headers: e.target.value })} />
+          </label>
+          <label className="webhook-block">
+            {t('webhooks.template')}
+            <textarea rows={6} value={endpoint.template} onChange={e => updateEndpoint(endpoint.id, { template: e.target.value })} />
+            <small>{t('webhooks.placeholders', { names: TEMPLATE_PLACEHOLDERS })}</small>
+          </label>
+          <label>
+            {t('webhooks.retries')}
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={endpoint.retries}
+              onChange={e => updateEndpoint(endpoint.id, { retries: Math.max(0, Math.round(Number(e.target.value))) })}
+            />
+            {t('webhooks.timeout')}
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={endpoint.timeoutMs / 1000}
+              onChange={e => updateEndpoint(endpoint.id, { timeoutMs: Math.max(500, Number(e.target.value) * 1000) })}
+            />
+            {t('settings.seconds')}
+          </label>
+          <div className="validation-add">
+            <button onClick={() => void handleTest(endpoint)} disabled={!endpoint.url}>{t('webhooks.sendTest')}</button>
+            {tests[endpoint.id] && <small>{t(describeDelivery(tests[endpoint.id]))}</small>}
+          </div>
+        </div>
+      ))}
+      <button onClick={() => onChange([...endpoints, createWebhookEndpoint()])}>{t('webhooks.add')}</button>
+    </fieldset>
+  );
+};
+
+export default WebhookSettings;
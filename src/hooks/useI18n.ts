@@ -0,0 +1,9 @@
+import { useContext } from 'react';
+import { I18n, I18nContext } from '../i18n';
+
+/**
+ * Translation function and formatters for the current language.
+ */
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { remoteLog } from '../utils/remoteLog';
+import {
+  InventoryLine,
+  addOrIncrementLine,
+  buildSessionDocument,
+  createSessionId,
+  removeSubmittedLines,
+  submitInventorySession,
+} from '../utils/inventory';
+
+/**
+ * State for an inventory counting session: line items keyed by code plus submission.
+ */
+export function useInventory() {
+  const [sessionId, setSessionId] = useState<string>(createSessionId);
+  const [startedAt, setStartedAt] = useState<number>(() => Date.now());
+  const [lines, setLines] = useState<InventoryLine[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const addCode = useCallback((code: string) => {
+    setLines(prev => addOrIncrementLine(prev, code));
+  }, []);
+
+  const setQuantity = useCallback((code: string, quantity: number) => {
+    setLines(prev => prev.map(l => (l.code === code ? { ...l, quantity: Math.max(0, Math.floor(quantity)) } : l)));
+  }, []);
+
+  const removeLine = useCallback((code: string) => {
+    setLines(prev => prev.filter(l => l.code !== code));
+  }, []);
+
+  const resetSession = useCallback(() => {
+    setSessionId(createSessionId());
+    setStartedAt(Date.now());
+    setLines([]);
+  }, []);
+
+  // Submits the whole session; on success a new session starts with whatever was counted meanwhile
+  const submitSession = useCallback(async (endpoint: string) => {
+    const doc = buildSessionDocument(sessionId, startedAt, lines);
+    setIsSubmitting(true);
+    try {
+      remoteLog('Client', LogLevel.INFO, 'Inventory', `Submitting session ${sessionId} with ${lines.length} lines to ${endpoint}`);
+      const outcome = await submitInventorySession(doc, endpoint);
+      remoteLog('Client', LogLevel.INFO, 'Inventory', `Session ${sessionId} ${outcome === 'sent' ? 'submitted' : 'queued for upload'}.`);
+      setSessionId(createSessionId());
+      setStartedAt(Date.now());
+      setLines(prev => removeSubmittedLines(prev, lines));
+      return outcome;
+    } catch (err) {
+      remoteLog('Client', LogLevel.ERROR, 'Inventory', `Failed to submit session ${sessionId}`, err instanceof Error ? err.message : String(err));
+      throw err;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [sessionId, startedAt, lines]);
+
+  return { sessionId, lines, isSubmitting, addCode, setQuantity, removeLine, resetSession, submitSession };
+}
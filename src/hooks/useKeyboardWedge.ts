@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { remoteLog } from '../utils/remoteLog';
+import { KeyboardWedgeSettings, listenForKeyboardWedge } from '../utils/keyboardWedge';
+
+/**
+ * Reports codes typed by a keyboard-wedge (HID) scanner while `settings.enabled` is set.
+ */
+export function useKeyboardWedge(settings: KeyboardWedgeSettings, onCode: (code: string) => void) {
+  // Latest callback without re-attaching the listener (which would drop a burst in progress)
+  const onCodeRef = useRef(onCode);
+
+  useEffect(() => {
+    onCodeRef.current = onCode;
+  }, [onCode]);
+
+  const { enabled, maxInterKeyMs, minLength, prefix, suffix, terminator } = settings;
+
+  useEffect(() => {
+    if (!enabled) return;
+    remoteLog('Client', LogLevel.INFO, 'KeyboardWedge', 'Listening for handheld scanner input', { maxInterKeyMs, terminator });
+    return listenForKeyboardWedge(
+      { enabled, maxInterKeyMs, minLength, prefix, suffix, terminator },
+      code => onCodeRef.current(code)
+    );
+  }, [enabled, maxInterKeyMs, minLength, prefix, suffix, terminator]);
+}
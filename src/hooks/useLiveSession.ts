@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { getClientId, remoteLog } from '../utils/remoteLog';
+import {
+  INITIAL_LIVE_SESSION_STATE,
+  LiveSessionAction,
+  LiveSessionConnection,
+  liveSessionReducer,
+  liveSessionSocketUrl,
+  parseJoinCode,
+} from '../utils/liveSession';
+
+// Joined session, so a reload of the tab rejoins it
+const STORAGE_KEY = 'qr-scanner.liveSession';
+
+/**
+ * Live scan session shared with other clients over the dev server's WebSocket hub.
+ * Joins automatically from a `?live=<code>` link or the session this tab was in before a reload.
+ * @param name Display name shown to the other participants.
+ */
+export function useLiveSession(name: string) {
+  const [state, dispatch] = useReducer(liveSessionReducer, INITIAL_LIVE_SESSION_STATE);
+  const connectionRef = useRef<LiveSessionConnection | null>(null);
+  const nameRef = useRef(name);
+
+  useEffect(() => {
+    nameRef.current = name;
+  }, [name]);
+
+  const getConnection = useCallback(() => {
+    if (!connectionRef.current) {
+      connectionRef.current = new LiveSessionConnection({
+        url: liveSessionSocketUrl(),
+        clientId: getClientId(),
+        onAction: (action: LiveSessionAction) => {
+          if (action.type === 'error') {
+            remoteLog('Client', LogLevel.WARN, 'LiveSession', `Session error: ${action.reason}`);
+          }
+          dispatch(action);
+        },
+      });
+    }
+    return connectionRef.current;
+  }, []);
+
+  const create = useCallback(() => {
+    remoteLog('Client', LogLevel.INFO, 'LiveSession', 'Creating live session');
+    getConnection().create(nameRef.current);
+  }, [getConnection]);
+
+  const join = useCallback((code: string) => {
+    remoteLog('Client', LogLevel.INFO, 'LiveSession', `Joining live session ${code}`);
+    getConnection().join(code, nameRef.current);
+  }, [getConnection]);
+
+  const leave = useCallback(() => {
+    remoteLog('Client', LogLevel.INFO, 'LiveSession', 'Leaving live session');
+    sessionStorage.removeItem(STORAGE_KEY);
+    connectionRef.current?.leave();
+  }, []);
+
+  const share = useCallback((value: string) => {
+    connectionRef.current?.sendScan(value);
+  }, []);
+
+  // Join from a link (removed from the address bar afterwards) or rejoin after a reload
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const linked = parseJoinCode(url.toString());
+    if (linked) {
+      // Stored first: the link is gone when StrictMode runs this effect again
+      sessionStorage.setItem(STORAGE_KEY, linked);
+      url.searchParams.delete('live');
+      window.history.replaceState(null, '', url);
+    }
+    const code = sessionStorage.getItem(STORAGE_KEY);
+    if (code) join(code);
+    return () => {
+      connectionRef.current?.close();
+      connectionRef.current = null;
+    };
+  }, [join]);
+
+  useEffect(() => {
+    if (state.status === 'joined' && state.code) sessionStorage.setItem(STORAGE_KEY, state.code);
+    // The session expired on the server (or the linked code was wrong)
+    if (state.error === 'not-found') sessionStorage.removeItem(STORAGE_KEY);
+  }, [state.status, state.code, state.error]);
+
+  return { ...state, create, join, leave, share };
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { subscribeOutbox } from '../utils/outbox';
+
+/**
+ * Tracks the outbox pending count and the browser's online state.
+ */
+export function useOutbox() {
+  const [pendingCount, setPendingCount] = useState<number>(0);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+
+  useEffect(() => subscribeOutbox(setPendingCount), []);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return { pendingCount, isOnline };
+}
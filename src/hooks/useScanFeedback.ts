@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { FeedbackKind, playFeedbackTone, unlockFeedbackAudio, vibrateFeedback } from '../utils/feedback';
+import { createDeduplicator } from '../utils/scanHistory';
+import { FeedbackSettings } from '../utils/settings';
+
+/** Latest flash to render; `id` changes with every signal so the animation restarts. */
+export interface FeedbackFlash {
+  kind: FeedbackKind;
+  id: number;
+}
+
+/**
+ * Audio, haptic and visual scan feedback. A code that keeps being read (e.g. the
+ * camera is held on it) is signalled only once per suppression window.
+ */
+export function useScanFeedback(settings: FeedbackSettings) {
+  const [flash, setFlash] = useState<FeedbackFlash | null>(null);
+  const isNewSignal = useMemo(() => createDeduplicator(settings.suppressionMs), [settings.suppressionMs]);
+
+  // The AudioContext may only be started from a user gesture
+  useEffect(() => {
+    const unlock = () => unlockFeedbackAudio();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  const signal = useCallback((kind: FeedbackKind, value: string) => {
+    // Track sightings even while muted so unmuting doesn't fire for a code still in view
+    if (!isNewSignal(value)) return;
+    if (settings.muted) return;
+    if (kind === 'duplicate' && !settings.duplicates) return;
+    if (settings.sound) playFeedbackTone(kind, settings.volume);
+    if (settings.vibration) vibrateFeedback(kind);
+    if (settings.flash) setFlash({ kind, id: Date.now() });
+  }, [settings, isNewSignal]);
+
+  return { signal, flash };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { remoteLog } from '../utils/remoteLog';
+import {
+  ScanRecord,
+  ScanSource,
+  DEFAULT_SCAN_COOLDOWN_MS,
+  addScan,
+  listScans,
+  deleteScan,
+  clearScans,
+  createDeduplicator,
+} from '../utils/scanHistory';
+
+/**
+ * React state wrapper around the persisted scan history.
+ * Loads stored scans on mount and exposes stable callbacks to record, delete and clear entries.
+ * @param cooldownMs Duplicate window passed to the deduplicator.
+ */
+export function useScanHistory(cooldownMs: number = DEFAULT_SCAN_COOLDOWN_MS) {
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const dedupeRef = useRef(createDeduplicator(cooldownMs));
+
+  // Reset the duplicate window when the cooldown changes
+  useEffect(() => {
+    dedupeRef.current = createDeduplicator(cooldownMs);
+  }, [cooldownMs]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listScans()
+      .then(records => {
+        if (!cancelled) setScans(records);
+      })
+      .catch(err => {
+        remoteLog('Client', LogLevel.ERROR, 'ScanHistory', 'Failed to load scan history', err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Returns the recorded scan, or null if it was suppressed as a duplicate
+  const recordScan = useCallback((value: string, deviceId: string, source: ScanSource = 'camera'): ScanRecord | null => {
+    const timestamp = Date.now();
+    if (!dedupeRef.current(value, timestamp)) {
+      return null;
+    }
+    const pending: ScanRecord = { value, deviceId, source, timestamp };
+    // Show immediately; replace with the stored record (with id) once persisted
+    setScans(prev => [pending, ...prev]);
+    addScan(pending)
+      .then(stored => setScans(prev => prev.map(r => (r === pending ? stored : r))))
+      .catch(err => {
+        remoteLog('Client', LogLevel.ERROR, 'ScanHistory', 'Failed to persist scan', err instanceof Error ? err.message : String(err));
+      });
+    return pending;
+  }, []);
+
+  const removeScan = useCallback(async (id: number) => {
+    try {
+      await deleteScan(id);
+      setScans(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      remoteLog('Client', LogLevel.ERROR, 'ScanHistory', `Failed to delete scan ${id}`, err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearScans();
+      setScans([]);
+    } catch (err) {
+      remoteLog('Client', LogLevel.ERROR, 'ScanHistory', 'Failed to clear scan history', err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  return { scans, recordScan, removeScan, clearHistory };
+}
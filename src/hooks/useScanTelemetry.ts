@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { remoteLog } from '../utils/remoteLog';
+import { ScanStats, ScanStatsSnapshot, computeScanMetrics, describeTrack, snapshotStats } from '../utils/scanMetrics';
+
+export const DEFAULT_TELEMETRY_INTERVAL_MS = 30000;
+
+/**
+ * Sends decode metrics and track diagnostics through remoteLog every `intervalMs`
+ * while `track` is active, plus a final report when it ends. The dev server
+ * aggregates these entries per clientId (GET /log/telemetry).
+ * @param getStats Stats of the scanner that ran the given track (also after it was stopped).
+ * @param intervalMs 0 disables telemetry.
+ */
+export function useScanTelemetry(
+  track: MediaStreamTrack | null,
+  getStats: (track: MediaStreamTrack) => ScanStats | null,
+  intervalMs: number = DEFAULT_TELEMETRY_INTERVAL_MS
+) {
+  const getStatsRef = useRef(getStats);
+
+  useEffect(() => {
+    getStatsRef.current = getStats;
+  }, [getStats]);
+
+  useEffect(() => {
+    if (!track || intervalMs <= 0) return;
+    let since: ScanStatsSnapshot | null = null;
+    const report = (final: boolean) => {
+      const stats = getStatsRef.current(track);
+      if (!stats) return;
+      const now = performance.now();
+      remoteLog('Client', LogLevel.INFO, 'Telemetry', 'Scan telemetry', {
+        final,
+        track: describeTrack(track),
+        metrics: computeScanMetrics(stats, since, now),
+      });
+      since = snapshotStats(stats, now);
+    };
+    const timer = setInterval(() => report(false), intervalMs);
+    return () => {
+      clearInterval(timer);
+      report(true);
+    };
+  }, [track, intervalMs]);
+}
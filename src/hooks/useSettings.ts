@@ -0,0 +1,24 @@
+import { useCallback, useState } from 'react';
+import { ScannerSettings, DEFAULT_SETTINGS, loadSettings, saveSettings } from '../utils/settings';
+
+/**
+ * Scanner settings state backed by localStorage.
+ */
+export function useSettings() {
+  const [settings, setSettings] = useState<ScannerSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<ScannerSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    saveSettings(DEFAULT_SETTINGS);
+    setSettings(DEFAULT_SETTINGS);
+  }, []);
+
+  return { settings, updateSettings, resetSettings };
+}
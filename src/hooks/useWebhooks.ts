@@ -0,0 +1,49 @@
+import { useCallback, useState } from 'react';
+import { LogLevel } from 'qr-scanner-library';
+import { getClientId, remoteLog } from '../utils/remoteLog';
+import { ScanRecord } from '../utils/scanHistory';
+import { WebhookDelivery, WebhookEndpoint, deliverWebhook, scanKey } from '../utils/webhooks';
+
+/**
+ * Forwards scans to the enabled webhook endpoints and tracks the delivery
+ * state per scan (keyed by scanKey) for display in the history.
+ */
+export function useWebhooks(endpoints: WebhookEndpoint[]) {
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDelivery[]>>({});
+
+  const forward = useCallback((scan: ScanRecord) => {
+    const active = endpoints.filter(e => e.enabled && e.url);
+    if (active.length === 0) return;
+    const key = scanKey(scan);
+    const update = (delivery: WebhookDelivery) => {
+      setDeliveries(prev => ({
+        ...prev,
+        [key]: (prev[key] ?? []).map(d => (d.endpointId === delivery.endpointId ? delivery : d)),
+      }));
+    };
+
+    setDeliveries(prev => ({
+      ...prev,
+      [key]: active.map(e => ({ endpointId: e.id, endpointName: e.name, status: 'pending', attempts: 0 })),
+    }));
+    const context = {
+      value: scan.value,
+      timestamp: new Date(scan.timestamp).toISOString(),
+      clientId: getClientId(),
+      deviceId: scan.deviceId,
+      source: scan.source ?? 'camera',
+    };
+    active.forEach(endpoint => {
+      void deliverWebhook(endpoint, context).then(delivery => {
+        update(delivery);
+        if (delivery.status === 'delivered') {
+          remoteLog('Client', LogLevel.INFO, 'Webhooks', `Delivered to ${endpoint.name}`, { attempts: delivery.attempts, httpStatus: delivery.httpStatus });
+        } else {
+          remoteLog('Client', LogLevel.WARN, 'Webhooks', `Delivery to ${endpoint.name} failed`, { attempts: delivery.attempts, error: delivery.error });
+        }
+      });
+    });
+  }, [endpoints]);
+
+  return { deliveries, forward };
+}
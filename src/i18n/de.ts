@@ -0,0 +1,328 @@
+import type { Catalog } from './types';
+
+export const de: Catalog = {
+  'app.title': 'QR-Code-Scanner',
+  'app.scannerHeading': 'QR-Code scannen',
+  'app.muteFeedback': 'Rückmeldung stummschalten',
+  'app.unmuteFeedback': 'Rückmeldung einschalten',
+  'app.settings': 'Einstellungen',
+  'app.inventoryMode': 'Inventurmodus',
+  'app.accepted': 'Akzeptiert: {reason}',
+  'app.rejected': 'Abgelehnt: {reason}',
+
+  'language.label': 'Sprache',
+  'language.auto': 'Browsersprache',
+  'language.de': 'Deutsch',
+  'language.en': 'English',
+
+  'status.error': 'Fehler: {message}',
+  'status.scanning': 'Scanne...',
+  'status.recovering': 'Kamera wird neu verbunden...',
+  'status.pausedHidden': 'Pausiert, solange die Seite im Hintergrund ist.',
+  'status.pausedMuted': 'Pausiert: Die Kamera liefert keine Bilder.',
+
+  'scanner.selectCamera': 'Kamera auswählen',
+  'scanner.loadingCameras': 'Kameras werden geladen...',
+  'scanner.noCameras': 'Keine Kameras gefunden',
+  'scanner.camera': 'Kamera',
+  'scanner.start': 'Scan starten',
+  'scanner.stop': 'Scan beenden',
+  'scanner.retry': 'Erneut versuchen',
+  'scanner.startIcon': 'Start',
+  'scanner.stopIcon': 'Stopp',
+
+  'cameraError.permissionDenied': 'Der Kamerazugriff ist blockiert. Erlaube die Kamera für diese Seite in den Browser-Einstellungen und tippe dann auf Start.',
+  'cameraError.inUse': 'Die Kamera wird von einer anderen App oder einem anderen Tab verwendet. Schließe diese und tippe dann auf Start.',
+  'cameraError.notFound': 'Keine Kamera gefunden. Schließe eine Kamera an, um fortzufahren.',
+  'cameraError.unknown': 'Die Kamera konnte nicht gestartet werden: {reason}',
+  'cameraError.listFailed': 'Kameras konnten nicht aufgelistet werden: {reason}',
+
+  'cameraControls.torch': 'Licht',
+  'cameraControls.zoom': 'Zoom',
+  'cameraControls.focus': 'Fokus',
+  'cameraControls.resolution': 'Auflösung',
+  'cameraControls.frameRate': 'FPS',
+  'cameraControls.default': 'Standard',
+  'cameraControls.rejected': 'Die Kamera hat die Einstellung abgelehnt: {reason}',
+
+  'diagnostics.title': 'Diagnose',
+  'diagnostics.cameras': 'Kameras ({count})',
+  'diagnostics.selected': '(ausgewählt)',
+  'diagnostics.activeTrack': 'Aktiver Track',
+  'diagnostics.label': 'Bezeichnung',
+  'diagnostics.resolution': 'Auflösung',
+  'diagnostics.frameRate': 'Bildrate',
+  'diagnostics.facingMode': 'Ausrichtung',
+  'diagnostics.state': 'Zustand',
+  'diagnostics.muted': '(stumm)',
+  'diagnostics.capabilities': 'Fähigkeiten',
+  'diagnostics.noCapabilities': 'keine gemeldet',
+  'diagnostics.noTrack': 'Keine aktive Kamera.',
+  'diagnostics.decoding': 'Dekodierung',
+  'diagnostics.attemptsPerSecond': 'Versuche/s',
+  'diagnostics.decodeTime': 'Zeit pro Decode',
+  'diagnostics.decodeTimeValue': '{avg} ms (max. {max} ms)',
+  'diagnostics.timeToFirstScan': 'Zeit bis zum ersten Scan',
+  'diagnostics.milliseconds': '{value} ms',
+  'diagnostics.noScanYet': 'noch kein Scan',
+  'diagnostics.errorRate': 'Fehlerquote',
+  'diagnostics.errorRateValue': '{rate} ({errors} von {attempts})',
+  'diagnostics.notScanned': 'Noch nicht gescannt.',
+
+  'history.title': 'Scan-Verlauf ({count})',
+  'history.search': 'Scans durchsuchen...',
+  'history.searchLabel': 'Scans durchsuchen',
+  'history.exportCsv': 'CSV exportieren',
+  'history.exportJson': 'JSON exportieren',
+  'history.clear': 'Leeren',
+  'history.confirmClear': 'Den gesamten Scan-Verlauf löschen?',
+  'history.empty': 'Noch keine Scans.',
+  'history.noMatch': 'Keine Scans passen zur Suche.',
+  'history.delete': 'Scan löschen',
+  'history.originImage': 'Bild',
+  'history.originHid': 'Handscanner',
+  'history.originCamera': 'Kamera {id}',
+  'history.originDefaultCamera': 'Standardkamera',
+
+  'imageDecode.dropHint': 'Bilder hier ablegen, einfügen oder',
+  'imageDecode.decoding': 'Dekodiere...',
+  'imageDecode.chooseFiles': 'Dateien auswählen',
+  'imageDecode.pasteImage': 'Bild einfügen',
+  'imageDecode.pastedImage': 'Eingefügtes Bild',
+  'imageDecode.clipboardImage': 'Bild aus der Zwischenablage',
+  'imageDecode.clipboard': 'Zwischenablage',
+  'imageDecode.noImageInClipboard': 'Kein Bild in der Zwischenablage.',
+  'imageDecode.noCode': 'Kein Code gefunden.',
+  'imageDecode.oneCode': '1 Code gefunden',
+  'imageDecode.codes': '{count} Codes gefunden',
+
+  'payload.lastResult': 'Letztes Scan-Ergebnis',
+  'payload.show': 'Anzeigen',
+  'payload.confirmOpen': 'Diesen Link öffnen?\n\n{url}',
+  'payload.copied': 'In die Zwischenablage kopiert.',
+  'payload.actionFailed': 'Aktion fehlgeschlagen: {reason}',
+
+  'payload.type.text': 'Text',
+  'payload.type.url': 'Link',
+  'payload.type.wifi': 'WLAN-Netzwerk',
+  'payload.type.vcard': 'Kontakt (vCard)',
+  'payload.type.mecard': 'Kontakt (MeCard)',
+  'payload.type.email': 'E-Mail',
+  'payload.type.tel': 'Telefonnummer',
+  'payload.type.geo': 'Standort',
+  'payload.type.epc': 'SEPA-Überweisung (EPC)',
+  'payload.type.swissQrBill': 'Schweizer QR-Rechnung',
+  'payload.type.gs1': 'GS1-Elementstring',
+
+  'payload.field.host': 'Host',
+  'payload.field.path': 'Pfad',
+  'payload.field.query': 'Abfrage',
+  'payload.field.warning': 'Warnung',
+  'payload.field.ssid': 'Netzwerk (SSID)',
+  'payload.field.security': 'Sicherheit',
+  'payload.field.password': 'Passwort',
+  'payload.field.hidden': 'Versteckt',
+  'payload.field.name': 'Name',
+  'payload.field.organization': 'Organisation',
+  'payload.field.title': 'Titel',
+  'payload.field.phone': 'Telefon',
+  'payload.field.email': 'E-Mail',
+  'payload.field.address': 'Adresse',
+  'payload.field.website': 'Website',
+  'payload.field.note': 'Notiz',
+  'payload.field.to': 'An',
+  'payload.field.cc': 'Cc',
+  'payload.field.subject': 'Betreff',
+  'payload.field.body': 'Text',
+  'payload.field.number': 'Nummer',
+  'payload.field.latitude': 'Breitengrad',
+  'payload.field.longitude': 'Längengrad',
+  'payload.field.altitude': 'Höhe',
+  'payload.field.beneficiary': 'Empfänger',
+  'payload.field.iban': 'IBAN',
+  'payload.field.bic': 'BIC',
+  'payload.field.amount': 'Betrag',
+  'payload.field.purpose': 'Zweck',
+  'payload.field.reference': 'Referenz',
+  'payload.field.referenceType': 'Referenz ({type})',
+  'payload.field.remittance': 'Verwendungszweck',
+  'payload.field.information': 'Hinweis',
+  'payload.field.version': 'Version',
+  'payload.field.creditor': 'Zahlungsempfänger',
+  'payload.field.creditorAddress': 'Adresse Zahlungsempfänger',
+  'payload.field.debtor': 'Zahlungspflichtiger',
+  'payload.field.debtorAddress': 'Adresse Zahlungspflichtiger',
+  'payload.field.message': 'Mitteilung',
+  'payload.value.unencrypted': 'Unverschlüsselte Verbindung (http)',
+  'payload.value.yes': 'ja',
+  'payload.value.openAmount': '(offen) {currency}',
+
+  'payload.gs1.sscc': 'SSCC ({ai})',
+  'payload.gs1.gtin': 'GTIN ({ai})',
+  'payload.gs1.contentGtin': 'GTIN des Inhalts ({ai})',
+  'payload.gs1.batch': 'Charge ({ai})',
+  'payload.gs1.productionDate': 'Herstellungsdatum ({ai})',
+  'payload.gs1.packagingDate': 'Verpackungsdatum ({ai})',
+  'payload.gs1.bestBefore': 'Mindestens haltbar bis ({ai})',
+  'payload.gs1.expiryDate': 'Verfallsdatum ({ai})',
+  'payload.gs1.variant': 'Variante ({ai})',
+  'payload.gs1.serialNumber': 'Seriennummer ({ai})',
+  'payload.gs1.variableCount': 'Variable Menge ({ai})',
+  'payload.gs1.count': 'Menge ({ai})',
+  'payload.gs1.additionalProductId': 'Zusätzliche Produkt-ID ({ai})',
+  'payload.gs1.customerPartNumber': 'Artikelnummer des Kunden ({ai})',
+  'payload.gs1.customerOrderNumber': 'Bestellnummer des Kunden ({ai})',
+  'payload.gs1.shipToGln': 'GLN des Warenempfängers ({ai})',
+  'payload.gs1.locationGln': 'GLN des Standorts ({ai})',
+  'payload.gs1.shipToPostalCode': 'Postleitzahl des Warenempfängers ({ai})',
+  'payload.gs1.measure': 'Maß ({base}, {decimals} Nachkommastellen) ({ai})',
+  'payload.gs1.unknown': 'AI {ai}',
+
+  'payload.action.openLink': 'Link öffnen',
+  'payload.action.copyLink': 'Link kopieren',
+  'payload.action.copyPassword': 'Passwort kopieren',
+  'payload.action.copyNetworkName': 'Netzwerknamen kopieren',
+  'payload.action.downloadVcf': '.vcf herunterladen',
+  'payload.action.composeEmail': 'E-Mail schreiben',
+  'payload.action.copyAddress': 'Adresse kopieren',
+  'payload.action.call': 'Anrufen',
+  'payload.action.copyNumber': 'Nummer kopieren',
+  'payload.action.showOnMap': 'Auf Karte zeigen',
+  'payload.action.copyCoordinates': 'Koordinaten kopieren',
+  'payload.action.copyIban': 'IBAN kopieren',
+  'payload.action.copyReference': 'Referenz kopieren',
+  'payload.action.copyGtin': 'GTIN kopieren',
+  'payload.action.copyAll': 'Alles kopieren',
+  'payload.action.copyText': 'Text kopieren',
+
+  'inventory.title': 'Inventur-Session',
+  'inventory.summary': '{session} · {items} Positionen · {units} Stück',
+  'inventory.empty': 'Scanne einen Code, um ihn zur Session hinzuzufügen.',
+  'inventory.code': 'Code',
+  'inventory.quantity': 'Menge',
+  'inventory.actions': 'Aktionen',
+  'inventory.quantityFor': 'Menge für {code}',
+  'inventory.removeLine': 'Position entfernen',
+  'inventory.endpoint': 'Ziel-Endpoint',
+  'inventory.submit': 'Übermitteln',
+  'inventory.submitting': 'Übermittle...',
+  'inventory.newSession': 'Neue Session',
+  'inventory.confirmReset': 'Die aktuelle Inventur-Session verwerfen?',
+  'inventory.submitted': 'Session übermittelt.',
+  'inventory.queued': 'Offline: Die Session wurde vorgemerkt und wird automatisch gesendet.',
+  'inventory.failed': 'Übermittlung fehlgeschlagen: {reason}',
+
+  'live.title': 'Live-Session',
+  'live.hint': 'Gemeinsam mit anderen Geräten scannen: Starte eine Session und lass die anderen ihren QR-Code scannen.',
+  'live.name': 'Dein Name',
+  'live.create': 'Session starten',
+  'live.codePlaceholder': 'Session-Code',
+  'live.join': 'Beitreten',
+  'live.invalidCode': 'Codes bestehen aus 6 Buchstaben oder Ziffern.',
+  'live.connecting': 'Verbinde...',
+  'live.reconnecting': 'Verbindung verloren, verbinde neu...',
+  'live.code': 'Session {code}',
+  'live.qrAlt': 'QR-Code zum Beitreten der Session {code}',
+  'live.leave': 'Verlassen',
+  'live.participants': 'Teilnehmer ({count}): {names}',
+  'live.you': '{name} (du)',
+  'live.empty': 'Noch keine Scans in dieser Session.',
+  'live.total': '{count}×',
+  'live.scanner': '{name} ({count})',
+  'live.errorNotFound': 'Keine Session mit diesem Code (vielleicht abgelaufen).',
+  'live.errorNotJoined': 'Mit keiner Session verbunden.',
+  'live.errorInvalidMessage': 'Der Server hat eine Nachricht abgelehnt.',
+  'live.errorSessionFull': 'Die Session ist voll; neue Codes werden nicht mehr geteilt.',
+
+  'outbox.offline': 'Offline',
+  'outbox.pending': '{count} ausstehend',
+  'outbox.retry': 'Jetzt senden',
+
+  'settings.title': 'Einstellungen',
+  'settings.autoStart': 'Scan automatisch starten',
+  'settings.stopOnScan': 'Nach dem ersten Scan anhalten',
+  'settings.cooldown': 'Wiederholte Codes ignorieren für',
+  'settings.seconds': 's',
+  'settings.milliseconds': 'ms',
+  'settings.feedback': 'Rückmeldung',
+  'settings.muteAll': 'Alles stumm',
+  'settings.sound': 'Ton',
+  'settings.vibration': 'Vibration',
+  'settings.flash': 'Blitz',
+  'settings.volume': 'Lautstärke',
+  'settings.signalDuplicates': 'Duplikate melden',
+  'settings.suppression': 'Denselben Code erneut melden nach',
+  'settings.keyboardWedge': 'Handscanner (Tastatur)',
+  'settings.wedgeEnabled': 'Eingaben von USB-/Bluetooth-Scannern annehmen',
+  'settings.wedgeInterval': 'Max. Zeit zwischen Tasten',
+  'settings.wedgeMinLength': 'Min. Länge',
+  'settings.wedgePrefix': 'Präfix',
+  'settings.wedgeSuffix': 'Suffix',
+  'settings.wedgeTerminator': 'Abschluss',
+  'settings.terminatorEnter': 'Enter',
+  'settings.terminatorTab': 'Tab',
+  'settings.terminatorNone': 'Keiner (Pause)',
+  'settings.rememberedCamera': 'Gemerkte Kamera: {camera}',
+  'settings.noCamera': 'keine',
+  'settings.forget': 'Vergessen',
+  'settings.reset': 'Auf Standard zurücksetzen',
+  'settings.confirmReset': 'Alle Einstellungen auf die Standardwerte zurücksetzen?',
+  'settings.close': 'Schließen',
+
+  'validation.title': 'Validierung',
+  'validation.noRules': 'Keine Regeln: Jedes Ergebnis wird akzeptiert.',
+  'validation.ruleEnabled': 'Regel aktiv',
+  'validation.ruleName': 'Name der Regel',
+  'validation.remove': 'Entfernen',
+  'validation.kindRegex': 'Regulärer Ausdruck',
+  'validation.kindGtin': 'GS1-GTIN-Prüfziffer',
+  'validation.kindJsonSchema': 'JSON-Schema',
+  'validation.pattern': 'Muster',
+  'validation.flags': 'Flags',
+  'validation.ruleType': 'Regeltyp',
+  'validation.addRule': 'Regel hinzufügen',
+  'validation.test': 'Testen',
+  'validation.sample': 'Beispielwert',
+  'validation.matches': 'Erfüllt „{rule}“',
+  'validation.noRulesActive': 'Keine Validierungsregeln aktiv',
+  'validation.failure': '{rule}: {reason}',
+  'validation.reason.invalidPattern': 'ungültiges Muster /{pattern}/',
+  'validation.reason.noMatch': 'passt nicht zu /{pattern}/{flags}',
+  'validation.reason.schemaNotJson': 'ungültiges Schema (kein JSON)',
+  'validation.reason.schemaNotObject': 'ungültiges Schema (kein Objekt)',
+  'validation.reason.notJson': 'kein JSON',
+  'validation.reason.notGtin': 'keine GTIN',
+  'validation.reason.gtinLength': 'ungültige GTIN-Länge {length}',
+  'validation.reason.checkDigit': 'Prüfziffer {actual} müsste {expected} sein',
+  'validation.reason.type': '{path}: {expected} erwartet, {actual} erhalten',
+  'validation.reason.enum': '{path}: nicht eines von {options}',
+  'validation.reason.minLength': '{path}: kürzer als {min}',
+  'validation.reason.maxLength': '{path}: länger als {max}',
+  'validation.reason.schemaPattern': '{path}: ungültiges Muster /{pattern}/ im Schema',
+  'validation.reason.schemaMismatch': '{path}: passt nicht zu {pattern}',
+  'validation.reason.minimum': '{path}: kleiner als {min}',
+  'validation.reason.maximum': '{path}: größer als {max}',
+  'validation.reason.missingProperty': '{path}: Eigenschaft „{name}“ fehlt',
+  'validation.reason.unexpectedProperty': '{path}: unerwartete Eigenschaft „{name}“',
+
+  'webhooks.title': 'Webhooks',
+  'webhooks.none': 'Akzeptierte Scans werden nicht weitergeleitet.',
+  'webhooks.enabled': 'Endpoint aktiv',
+  'webhooks.name': 'Name des Endpoints',
+  'webhooks.remove': 'Entfernen',
+  'webhooks.url': 'URL',
+  'webhooks.headers': 'Header (ein „Name: Wert“ pro Zeile)',
+  'webhooks.template': 'Payload-Vorlage',
+  'webhooks.placeholders': 'Platzhalter: {names}; mit |json als JSON-String in Anführungszeichen.',
+  'webhooks.retries': 'Wiederholungen',
+  'webhooks.timeout': 'Timeout',
+  'webhooks.sendTest': 'Test senden',
+  'webhooks.add': 'Endpoint hinzufügen',
+  'webhooks.sending': 'wird gesendet...',
+  'webhooks.delivered': 'zugestellt',
+  'webhooks.deliveredStatus': 'zugestellt ({status})',
+  'webhooks.deliveredAfter': 'zugestellt nach {attempts} Versuchen',
+  'webhooks.deliveredStatusAfter': 'zugestellt ({status}) nach {attempts} Versuchen',
+  'webhooks.failed': 'fehlgeschlagen: {reason}',
+  'webhooks.failedAfter': 'fehlgeschlagen nach {attempts} Versuchen: {reason}',
+};
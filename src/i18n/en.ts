@@ -0,0 +1,328 @@
+// English catalog. Its keys are the message keys (see types.ts); de.ts must provide every one of them.
+// Placeholders like {count} are filled from the params passed to t() (numbers are formatted per locale).
+export const en = {
+  'app.title': 'QR Code Scanner Application',
+  'app.scannerHeading': 'QR Code Scanner',
+  'app.muteFeedback': 'Mute feedback',
+  'app.unmuteFeedback': 'Unmute feedback',
+  'app.settings': 'Settings',
+  'app.inventoryMode': 'Inventory mode',
+  'app.accepted': 'Accepted: {reason}',
+  'app.rejected': 'Rejected: {reason}',
+
+  'language.label': 'Language',
+  'language.auto': 'Browser language',
+  'language.de': 'Deutsch',
+  'language.en': 'English',
+
+  'status.error': 'Error: {message}',
+  'status.scanning': 'Scanning...',
+  'status.recovering': 'Reconnecting camera...',
+  'status.pausedHidden': 'Paused while the page is in the background.',
+  'status.pausedMuted': 'Paused: the camera is not delivering frames.',
+
+  'scanner.selectCamera': 'Select Camera',
+  'scanner.loadingCameras': 'Loading cameras...',
+  'scanner.noCameras': 'No cameras found',
+  'scanner.camera': 'Camera',
+  'scanner.start': 'Start Scan',
+  'scanner.stop': 'Stop Scan',
+  'scanner.retry': 'Retry',
+  'scanner.startIcon': 'Start',
+  'scanner.stopIcon': 'Stop',
+
+  'cameraError.permissionDenied': 'Camera access is blocked. Allow the camera for this site in the browser settings, then press Start.',
+  'cameraError.inUse': 'The camera is in use by another app or tab. Close it, then press Start.',
+  'cameraError.notFound': 'No camera found. Connect a camera to continue.',
+  'cameraError.unknown': 'The camera could not be started: {reason}',
+  'cameraError.listFailed': 'Failed to list cameras: {reason}',
+
+  'cameraControls.torch': 'Torch',
+  'cameraControls.zoom': 'Zoom',
+  'cameraControls.focus': 'Focus',
+  'cameraControls.resolution': 'Resolution',
+  'cameraControls.frameRate': 'FPS',
+  'cameraControls.default': 'Default',
+  'cameraControls.rejected': 'Camera rejected the setting: {reason}',
+
+  'diagnostics.title': 'Diagnostics',
+  'diagnostics.cameras': 'Cameras ({count})',
+  'diagnostics.selected': '(selected)',
+  'diagnostics.activeTrack': 'Active track',
+  'diagnostics.label': 'Label',
+  'diagnostics.resolution': 'Resolution',
+  'diagnostics.frameRate': 'Frame rate',
+  'diagnostics.facingMode': 'Facing mode',
+  'diagnostics.state': 'State',
+  'diagnostics.muted': '(muted)',
+  'diagnostics.capabilities': 'Capabilities',
+  'diagnostics.noCapabilities': 'none reported',
+  'diagnostics.noTrack': 'No active camera.',
+  'diagnostics.decoding': 'Decoding',
+  'diagnostics.attemptsPerSecond': 'Attempts/s',
+  'diagnostics.decodeTime': 'Time per decode',
+  'diagnostics.decodeTimeValue': '{avg} ms (max {max} ms)',
+  'diagnostics.timeToFirstScan': 'Time to first scan',
+  'diagnostics.milliseconds': '{value} ms',
+  'diagnostics.noScanYet': 'no scan yet',
+  'diagnostics.errorRate': 'Error rate',
+  'diagnostics.errorRateValue': '{rate} ({errors} in {attempts})',
+  'diagnostics.notScanned': 'Not scanned yet.',
+
+  'history.title': 'Scan History ({count})',
+  'history.search': 'Search scans...',
+  'history.searchLabel': 'Search scans',
+  'history.exportCsv': 'Export CSV',
+  'history.exportJson': 'Export JSON',
+  'history.clear': 'Clear',
+  'history.confirmClear': 'Delete the entire scan history?',
+  'history.empty': 'No scans yet.',
+  'history.noMatch': 'No scans match your search.',
+  'history.delete': 'Delete scan',
+  'history.originImage': 'Image',
+  'history.originHid': 'Handheld scanner',
+  'history.originCamera': 'Camera {id}',
+  'history.originDefaultCamera': 'Default camera',
+
+  'imageDecode.dropHint': 'Drop images here, paste, or',
+  'imageDecode.decoding': 'Decoding...',
+  'imageDecode.chooseFiles': 'Choose files',
+  'imageDecode.pasteImage': 'Paste image',
+  'imageDecode.pastedImage': 'Pasted image',
+  'imageDecode.clipboardImage': 'Clipboard image',
+  'imageDecode.clipboard': 'Clipboard',
+  'imageDecode.noImageInClipboard': 'No image in clipboard.',
+  'imageDecode.noCode': 'No code found.',
+  'imageDecode.oneCode': '1 code found',
+  'imageDecode.codes': '{count} codes found',
+
+  'payload.lastResult': 'Last Scan Result',
+  'payload.show': 'Show',
+  'payload.confirmOpen': 'Open this link?\n\n{url}',
+  'payload.copied': 'Copied to clipboard.',
+  'payload.actionFailed': 'Action failed: {reason}',
+
+  'payload.type.text': 'Text',
+  'payload.type.url': 'Link',
+  'payload.type.wifi': 'Wi-Fi network',
+  'payload.type.vcard': 'Contact (vCard)',
+  'payload.type.mecard': 'Contact (MeCard)',
+  'payload.type.email': 'Email',
+  'payload.type.tel': 'Phone number',
+  'payload.type.geo': 'Location',
+  'payload.type.epc': 'SEPA payment (EPC)',
+  'payload.type.swissQrBill': 'Swiss QR-bill',
+  'payload.type.gs1': 'GS1 element string',
+
+  'payload.field.host': 'Host',
+  'payload.field.path': 'Path',
+  'payload.field.query': 'Query',
+  'payload.field.warning': 'Warning',
+  'payload.field.ssid': 'Network (SSID)',
+  'payload.field.security': 'Security',
+  'payload.field.password': 'Password',
+  'payload.field.hidden': 'Hidden',
+  'payload.field.name': 'Name',
+  'payload.field.organization': 'Organization',
+  'payload.field.title': 'Title',
+  'payload.field.phone': 'Phone',
+  'payload.field.email': 'Email',
+  'payload.field.address': 'Address',
+  'payload.field.website': 'Website',
+  'payload.field.note': 'Note',
+  'payload.field.to': 'To',
+  'payload.field.cc': 'Cc',
+  'payload.field.subject': 'Subject',
+  'payload.field.body': 'Body',
+  'payload.field.number': 'Number',
+  'payload.field.latitude': 'Latitude',
+  'payload.field.longitude': 'Longitude',
+  'payload.field.altitude': 'Altitude',
+  'payload.field.beneficiary': 'Beneficiary',
+  'payload.field.iban': 'IBAN',
+  'payload.field.bic': 'BIC',
+  'payload.field.amount': 'Amount',
+  'payload.field.purpose': 'Purpose',
+  'payload.field.reference': 'Reference',
+  'payload.field.referenceType': 'Reference ({type})',
+  'payload.field.remittance': 'Remittance',
+  'payload.field.information': 'Information',
+  'payload.field.version': 'Version',
+  'payload.field.creditor': 'Creditor',
+  'payload.field.creditorAddress': 'Creditor address',
+  'payload.field.debtor': 'Debtor',
+  'payload.field.debtorAddress': 'Debtor address',
+  'payload.field.message': 'Message',
+  'payload.value.unencrypted': 'Unencrypted connection (http)',
+  'payload.value.yes': 'yes',
+  'payload.value.openAmount': '(open) {currency}',
+
+  'payload.gs1.sscc': 'SSCC ({ai})',
+  'payload.gs1.gtin': 'GTIN ({ai})',
+  'payload.gs1.contentGtin': 'Content GTIN ({ai})',
+  'payload.gs1.batch': 'Batch/Lot ({ai})',
+  'payload.gs1.productionDate': 'Production date ({ai})',
+  'payload.gs1.packagingDate': 'Packaging date ({ai})',
+  'payload.gs1.bestBefore': 'Best before ({ai})',
+  'payload.gs1.expiryDate': 'Expiry date ({ai})',
+  'payload.gs1.variant': 'Variant ({ai})',
+  'payload.gs1.serialNumber': 'Serial number ({ai})',
+  'payload.gs1.variableCount': 'Variable count ({ai})',
+  'payload.gs1.count': 'Count ({ai})',
+  'payload.gs1.additionalProductId': 'Additional product ID ({ai})',
+  'payload.gs1.customerPartNumber': 'Customer part number ({ai})',
+  'payload.gs1.customerOrderNumber': 'Customer order number ({ai})',
+  'payload.gs1.shipToGln': 'Ship to GLN ({ai})',
+  'payload.gs1.locationGln': 'Location GLN ({ai})',
+  'payload.gs1.shipToPostalCode': 'Ship to postal code ({ai})',
+  'payload.gs1.measure': 'Measure ({base}, {decimals} decimals) ({ai})',
+  'payload.gs1.unknown': 'AI {ai}',
+
+  'payload.action.openLink': 'Open link',
+  'payload.action.copyLink': 'Copy link',
+  'payload.action.copyPassword': 'Copy password',
+  'payload.action.copyNetworkName': 'Copy network name',
+  'payload.action.downloadVcf': 'Download .vcf',
+  'payload.action.composeEmail': 'Compose email',
+  'payload.action.copyAddress': 'Copy address',
+  'payload.action.call': 'Call',
+  'payload.action.copyNumber': 'Copy number',
+  'payload.action.showOnMap': 'Show on map',
+  'payload.action.copyCoordinates': 'Copy coordinates',
+  'payload.action.copyIban': 'Copy IBAN',
+  'payload.action.copyReference': 'Copy reference',
+  'payload.action.copyGtin': 'Copy GTIN',
+  'payload.action.copyAll': 'Copy all',
+  'payload.action.copyText': 'Copy text',
+
+  'inventory.title': 'Inventory Session',
+  'inventory.summary': '{session} · {items} items · {units} units',
+  'inventory.empty': 'Scan a code to add it to the session.',
+  'inventory.code': 'Code',
+  'inventory.quantity': 'Qty',
+  'inventory.actions': 'Actions',
+  'inventory.quantityFor': 'Quantity for {code}',
+  'inventory.removeLine': 'Remove line',
+  'inventory.endpoint': 'Submission endpoint',
+  'inventory.submit': 'Submit',
+  'inventory.submitting': 'Submitting...',
+  'inventory.newSession': 'New session',
+  'inventory.confirmReset': 'Discard the current inventory session?',
+  'inventory.submitted': 'Session submitted.',
+  'inventory.queued': 'Offline: session queued and will be sent automatically.',
+  'inventory.failed': 'Submission failed: {reason}',
+
+  'live.title': 'Live session',
+  'live.hint': 'Scan together with other devices: start a session and let the others scan its QR code.',
+  'live.name': 'Your name',
+  'live.create': 'Start session',
+  'live.codePlaceholder': 'Session code',
+  'live.join': 'Join',
+  'live.invalidCode': 'Codes have 6 letters or digits.',
+  'live.connecting': 'Connecting...',
+  'live.reconnecting': 'Connection lost, reconnecting...',
+  'live.code': 'Session {code}',
+  'live.qrAlt': 'QR code to join session {code}',
+  'live.leave': 'Leave',
+  'live.participants': 'Participants ({count}): {names}',
+  'live.you': '{name} (you)',
+  'live.empty': 'No scans in this session yet.',
+  'live.total': '{count}×',
+  'live.scanner': '{name} ({count})',
+  'live.errorNotFound': 'No session with this code (it may have expired).',
+  'live.errorNotJoined': 'Not connected to a session.',
+  'live.errorInvalidMessage': 'The server rejected a message.',
+  'live.errorSessionFull': 'The session is full; new codes are no longer shared.',
+
+  'outbox.offline': 'Offline',
+  'outbox.pending': '{count} pending',
+  'outbox.retry': 'Retry now',
+
+  'settings.title': 'Settings',
+  'settings.autoStart': 'Start scanning automatically',
+  'settings.stopOnScan': 'Stop after first scan',
+  'settings.cooldown': 'Ignore repeated codes for',
+  'settings.seconds': 's',
+  'settings.milliseconds': 'ms',
+  'settings.feedback': 'Feedback',
+  'settings.muteAll': 'Mute all',
+  'settings.sound': 'Sound',
+  'settings.vibration': 'Vibration',
+  'settings.flash': 'Flash',
+  'settings.volume': 'Volume',
+  'settings.signalDuplicates': 'Signal duplicates',
+  'settings.suppression': 'Signal the same code again after',
+  'settings.keyboardWedge': 'Handheld scanner (keyboard)',
+  'settings.wedgeEnabled': 'Accept input from USB/Bluetooth scanners',
+  'settings.wedgeInterval': 'Max. time between keys',
+  'settings.wedgeMinLength': 'Min. length',
+  'settings.wedgePrefix': 'Prefix',
+  'settings.wedgeSuffix': 'Suffix',
+  'settings.wedgeTerminator': 'Terminator',
+  'settings.terminatorEnter': 'Enter',
+  'settings.terminatorTab': 'Tab',
+  'settings.terminatorNone': 'None (pause)',
+  'settings.rememberedCamera': 'Remembered camera: {camera}',
+  'settings.noCamera': 'none',
+  'settings.forget': 'Forget',
+  'settings.reset': 'Reset to defaults',
+  'settings.confirmReset': 'Reset all settings to their defaults?',
+  'settings.close': 'Close',
+
+  'validation.title': 'Validation',
+  'validation.noRules': 'No rules: every result is accepted.',
+  'validation.ruleEnabled': 'Rule enabled',
+  'validation.ruleName': 'Rule name',
+  'validation.remove': 'Remove',
+  'validation.kindRegex': 'Regular expression',
+  'validation.kindGtin': 'GS1 GTIN check digit',
+  'validation.kindJsonSchema': 'JSON schema',
+  'validation.pattern': 'Pattern',
+  'validation.flags': 'Flags',
+  'validation.ruleType': 'Rule type',
+  'validation.addRule': 'Add rule',
+  'validation.test': 'Test',
+  'validation.sample': 'Sample value',
+  'validation.matches': 'Matches "{rule}"',
+  'validation.noRulesActive': 'No validation rules active',
+  'validation.failure': '{rule}: {reason}',
+  'validation.reason.invalidPattern': 'invalid pattern /{pattern}/',
+  'validation.reason.noMatch': 'does not match /{pattern}/{flags}',
+  'validation.reason.schemaNotJson': 'invalid schema (not JSON)',
+  'validation.reason.schemaNotObject': 'invalid schema (not an object)',
+  'validation.reason.notJson': 'not JSON',
+  'validation.reason.notGtin': 'not a GTIN',
+  'validation.reason.gtinLength': 'invalid GTIN length {length}',
+  'validation.reason.checkDigit': 'check digit {actual} should be {expected}',
+  'validation.reason.type': '{path}: expected {expected}, got {actual}',
+  'validation.reason.enum': '{path}: not one of {options}',
+  'validation.reason.minLength': '{path}: shorter than {min}',
+  'validation.reason.maxLength': '{path}: longer than {max}',
+  'validation.reason.schemaPattern': '{path}: invalid pattern /{pattern}/ in schema',
+  'validation.reason.schemaMismatch': '{path}: does not match {pattern}',
+  'validation.reason.minimum': '{path}: less than {min}',
+  'validation.reason.maximum': '{path}: greater than {max}',
+  'validation.reason.missingProperty': '{path}: missing property "{name}"',
+  'validation.reason.unexpectedProperty': '{path}: unexpected property "{name}"',
+
+  'webhooks.title': 'Webhooks',
+  'webhooks.none': 'Accepted scans are not forwarded.',
+  'webhooks.enabled': 'Endpoint enabled',
+  'webhooks.name': 'Endpoint name',
+  'webhooks.remove': 'Remove',
+  'webhooks.url': 'URL',
+  'webhooks.headers': 'Headers (one "Name: value" per line)',
+  'webhooks.template': 'Payload template',
+  'webhooks.placeholders': 'Placeholders: {names}; add |json for a quoted JSON string.',
+  'webhooks.retries': 'Retries',
+  'webhooks.timeout': 'Timeout',
+  'webhooks.sendTest': 'Send test',
+  'webhooks.add': 'Add endpoint',
+  'webhooks.sending': 'sending...',
+  'webhooks.delivered': 'delivered',
+  'webhooks.deliveredStatus': 'delivered ({status})',
+  'webhooks.deliveredAfter': 'delivered after {attempts} attempts',
+  'webhooks.deliveredStatusAfter': 'delivered ({status}) after {attempts} attempts',
+  'webhooks.failed': 'failed: {reason}',
+  'webhooks.failedAfter': 'failed after {attempts} attempts: {reason}',
+};
@@ -0,0 +1,6 @@
+/**
+ * UI translations (German and English) with browser-language detection and locale-aware formatting.
+ * Components read the active catalog via useI18n(); App provides it for the language chosen in the settings.
+ */
+export { DEFAULT_LOCALE, I18nContext, SUPPORTED_LOCALES, createI18n, detectLocale, resolveLocale } from './translate';
+export type { Catalog, I18n, LanguagePreference, Locale, MessageKey, MessageParams, Translatable } from './types';
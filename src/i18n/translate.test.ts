@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { de } from './de';
+import { en } from './en';
+import { createI18n, detectLocale } from './translate';
+
+describe('detectLocale', () => {
+  it('picks the first supported browser language by its primary subtag', () => {
+    expect(detectLocale(['fr-FR', 'de-AT', 'en'])).toBe('de');
+    expect(detectLocale(['EN-gb'])).toBe('en');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLocale(['fr', 'es'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+  });
+});
+
+describe('createI18n', () => {
+  it('fills placeholders and formats number params for the locale', () => {
+    expect(createI18n('en').t('history.title', { count: 1234 })).toBe('Scan History (1,234)');
+    expect(createI18n('de').t('history.title', { count: 1234 })).toBe('Scan-Verlauf (1.234)');
+  });
+
+  it('translates Translatable messages and leaves unknown placeholders alone', () => {
+    const { t } = createI18n('de');
+    expect(t({ key: 'cameraError.listFailed', params: { reason: 'NotSupportedError' } }))
+      .toBe('Kameras konnten nicht aufgelistet werden: NotSupportedError');
+    expect(t('cameraError.unknown')).toBe('Die Kamera konnte nicht gestartet werden: {reason}');
+  });
+
+  it('formats dates and numbers per locale', () => {
+    const date = Date.UTC(2024, 2, 5, 12, 0, 0);
+    const options: Intl.DateTimeFormatOptions = { dateStyle: 'short', timeZone: 'UTC' };
+    expect(createI18n('de').formatDateTime(date, options)).toBe('05.03.24');
+    expect(createI18n('en').formatDateTime(date, options)).toBe('3/5/24');
+    expect(createI18n('de').formatNumber(0.125, { style: 'percent', minimumFractionDigits: 1 })).toBe('12,5\u00a0%');
+  });
+});
+
+describe('catalogs', () => {
+  it('have the same keys and placeholders in German and English', () => {
+    expect(Object.keys(de).sort()).toEqual(Object.keys(en).sort());
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+    for (const [key, text] of Object.entries(en)) {
+      expect(placeholders(de[key as keyof typeof en]), key).toEqual(placeholders(text));
+    }
+  });
+});
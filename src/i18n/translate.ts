@@ -0,0 +1,59 @@
+import { createContext } from 'react';
+import { de } from './de';
+import { en } from './en';
+import { Catalog, I18n, LanguagePreference, Locale, MessageParams } from './types';
+
+const CATALOGS: Record<Locale, Catalog> = { de, en };
+
+export const SUPPORTED_LOCALES: Locale[] = ['de', 'en'];
+
+/** Used when none of the browser languages is supported. */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const isLocale = (value: string): value is Locale => (SUPPORTED_LOCALES as string[]).includes(value);
+
+/**
+ * First supported locale among the browser languages (by primary subtag, so `de-AT` picks `de`).
+ */
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const language of languages) {
+    const primary = language.split('-')[0].toLowerCase();
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export const resolveLocale = (preference: LanguagePreference): Locale =>
+  preference === 'auto' ? detectLocale() : preference;
+
+/**
+ * Translation and formatting bound to one locale.
+ * Number params are formatted for the locale; unknown placeholders are left as they are.
+ */
+export function createI18n(locale: Locale): I18n {
+  const catalog = CATALOGS[locale];
+  const numberFormat = new Intl.NumberFormat(locale);
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'medium' });
+
+  const interpolate = (template: string, params: MessageParams = {}) =>
+    template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numberFormat.format(value) : value;
+    });
+
+  return {
+    locale,
+    t: (message, params) => (typeof message === 'string'
+      ? interpolate(catalog[message], params)
+      : interpolate(catalog[message.key], message.params)),
+    formatDateTime: (value, options) => (options ? new Intl.DateTimeFormat(locale, options) : dateTimeFormat).format(value),
+    formatNumber: (value, options) => (options ? new Intl.NumberFormat(locale, options) : numberFormat).format(value),
+  };
+}
+
+/**
+ * Provided by the app for the chosen language; components rendered without a provider
+ * (e.g. QRScanner embedded elsewhere) follow the browser language.
+ */
+export const I18nContext = createContext<I18n>(createI18n(detectLocale()));
@@ -0,0 +1,27 @@
+import type { en } from './en';
+
+export type Locale = 'de' | 'en';
+
+/** Persisted language choice: a fixed locale or 'auto' (browser language). */
+export type LanguagePreference = Locale | 'auto';
+
+export type MessageKey = keyof typeof en;
+
+/** A complete message catalog for one locale. */
+export type Catalog = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+/** A message that is translated where it is shown (e.g. an error kept in state). */
+export interface Translatable {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface I18n {
+  locale: Locale;
+  /** Message for the key (or Translatable) with `{name}` placeholders filled from params. */
+  t: (message: MessageKey | Translatable, params?: MessageParams) => string;
+  formatDateTime: (value: number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
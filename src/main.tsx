@@ -2,6 +2,12 @@ import { StrictMode } from 'react' // Re-enable StrictMode
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { initOutbox } from './utils/outbox'
+import { registerServiceWorker } from './utils/serviceWorker'
+
+// Offline support: replay queued uploads and cache the app shell
+initOutbox()
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode> {/* Re-enable StrictMode */}
@@ -0,0 +1,488 @@
+import type { MessageKey, Translatable } from '../i18n';
+import { PayloadAction, PayloadField, PayloadParser } from './types';
+
+// --- Helpers ---
+
+// Helper: Adds a field only if the value is non-empty
+function pushField(fields: PayloadField[], label: MessageKey | Translatable, value: string | undefined, sensitive?: boolean): void {
+  if (value && value.trim() !== '') {
+    const field: PayloadField = { label: typeof label === 'string' ? { key: label } : label, value };
+    fields.push(sensitive ? { ...field, sensitive } : field);
+  }
+}
+
+/**
+ * Splits the body of a `WIFI:` / `MECARD:` payload into key/value pairs.
+ * Fields are separated by `;`, keys by `:`, and `\` escapes `;`, `,`, `:`, `"` and `\`.
+ */
+function parseSemicolonFields(body: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  let current = '';
+  let escaped = false;
+  const flush = () => {
+    const sep = current.search(/(?<!\\):/);
+    if (current !== '' && sep > 0) {
+      const key = current.substring(0, sep).toUpperCase();
+      const value = current.substring(sep + 1).replace(/\\([\\;,:"])/g, '$1');
+      pairs.push([key, value]);
+    }
+    current = '';
+  };
+  for (const ch of body) {
+    if (escaped) {
+      current += `\\${ch}`;
+      escaped = false;
+    } else if (ch === '\\') {
+      escaped = true;
+    } else if (ch === ';') {
+      flush();
+    } else {
+      current += ch;
+    }
+  }
+  flush();
+  return pairs;
+}
+
+// Helper: Escapes a value for a vCard property
+function vcardEscape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+function safeFilename(name: string, fallback: string): string {
+  const cleaned = name.replace(/[^\p{L}\p{N}_ -]/gu, '').trim().replace(/\s+/g, '_');
+  return cleaned || fallback;
+}
+
+// --- URL ---
+
+export const urlParser: PayloadParser = {
+  type: 'url',
+  label: { key: 'payload.type.url' },
+  priority: 50,
+  parse(raw) {
+    const text = raw.trim();
+    if (!/^https?:\/\/\S+$/i.test(text)) return null;
+    const url = new URL(text);
+    const fields: PayloadField[] = [];
+    pushField(fields, 'payload.field.host', url.host);
+    pushField(fields, 'payload.field.path', url.pathname !== '/' ? url.pathname : '');
+    pushField(fields, 'payload.field.query', url.search);
+    if (url.protocol !== 'https:') {
+      fields.push({ label: { key: 'payload.field.warning' }, value: { key: 'payload.value.unencrypted' } });
+    }
+    return {
+      fields,
+      actions: [
+        { kind: 'open', label: { key: 'payload.action.openLink' }, url: url.href, confirm: true },
+        { kind: 'copy', label: { key: 'payload.action.copyLink' }, text: url.href },
+      ],
+    };
+  },
+};
+
+// --- Wi-Fi ---
+
+export const wifiParser: PayloadParser = {
+  type: 'wifi',
+  label: { key: 'payload.type.wifi' },
+  priority: 90,
+  parse(raw) {
+    if (!/^WIFI:/i.test(raw)) return null;
+    const values = new Map(parseSemicolonFields(raw.substring(5)));
+    const ssid = values.get('S');
+    if (!ssid) return null;
+    const password = values.get('P') ?? '';
+    const fields: PayloadField[] = [];
+    pushField(fields, 'payload.field.ssid', ssid);
+    pushField(fields, 'payload.field.security', values.get('T') || 'nopass');
+    pushField(fields, 'payload.field.password', password, true);
+    if ((values.get('H') ?? '').toLowerCase() === 'true') {
+      fields.push({ label: { key: 'payload.field.hidden' }, value: { key: 'payload.value.yes' } });
+    }
+    const actions: PayloadAction[] = [{ kind: 'copy', label: { key: 'payload.action.copyNetworkName' }, text: ssid }];
+    if (password) {
+      actions.unshift({ kind: 'copy', label: { key: 'payload.action.copyPassword' }, text: password });
+    }
+    return { fields, actions };
+  },
+};
+
+// --- Contacts (vCard / MeCard) ---
+
+// Helper: Display name from a vCard N value (family;given;additional;prefix;suffix)
+function vcardStructuredName(value: string): string {
+  const [family, given, additional, prefix, suffix] = value.split(';');
+  return [prefix, given, additional, family, suffix].filter(Boolean).join(' ');
+}
+
+export const vcardParser: PayloadParser = {
+  type: 'vcard',
+  label: { key: 'payload.type.vcard' },
+  priority: 90,
+  parse(raw) {
+    const text = raw.trim();
+    if (!/^BEGIN:VCARD/i.test(text)) return null;
+    // Unfold continuation lines (RFC 6350 §3.2)
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const fields: PayloadField[] = [];
+    let name = '';
+    const labels: Record<string, MessageKey> = {
+      FN: 'payload.field.name',
+      ORG: 'payload.field.organization',
+      TITLE: 'payload.field.title',
+      TEL: 'payload.field.phone',
+      EMAIL: 'payload.field.email',
+      ADR: 'payload.field.address',
+      URL: 'payload.field.website',
+      NOTE: 'payload.field.note',
+    };
+    for (const line of lines) {
+      const sep = line.indexOf(':');
+      if (sep <= 0) continue;
+      const property = line.substring(0, sep).split(';')[0].toUpperCase().replace(/^item\d+\./i, '');
+      const value = line.substring(sep + 1).replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+      if (property === 'FN') name = value;
+      if (property === 'N' && !name) name = vcardStructuredName(value);
+      const label = labels[property];
+      if (label) {
+        pushField(fields, label, property === 'ADR' ? value.split(';').filter(Boolean).join(', ') : value);
+      }
+    }
+    if (name && !fields.some(f => f.label.key === 'payload.field.name')) {
+      fields.unshift({ label: { key: 'payload.field.name' }, value: name });
+    }
+    return {
+      fields,
+      actions: [
+        { kind: 'download', label: { key: 'payload.action.downloadVcf' }, filename: `${safeFilename(name, 'contact')}.vcf`, content: text, mimeType: 'text/vcard' },
+      ],
+    };
+  },
+};
+
+export const mecardParser: PayloadParser = {
+  type: 'mecard',
+  label: { key: 'payload.type.mecard' },
+  priority: 90,
+  parse(raw) {
+    if (!/^MECARD:/i.test(raw)) return null;
+    const pairs = parseSemicolonFields(raw.substring(7));
+    if (pairs.length === 0) return null;
+    const fields: PayloadField[] = [];
+    const vcardLines = ['BEGIN:VCARD', 'VERSION:3.0'];
+    let name = '';
+    for (const [key, value] of pairs) {
+      switch (key) {
+        case 'N': {
+          // MeCard names are "Last,First"
+          const [last = '', first = ''] = value.split(',');
+          name = [first, last].filter(Boolean).join(' ');
+          pushField(fields, 'payload.field.name', name);
+          vcardLines.push(`N:${vcardEscape(last)};${vcardEscape(first)};;;`, `FN:${vcardEscape(name)}`);
+          break;
+        }
+        case 'TEL':
+          pushField(fields, 'payload.field.phone', value);
+          vcardLines.push(`TEL:${vcardEscape(value)}`);
+          break;
+        case 'EMAIL':
+          pushField(fields, 'payload.field.email', value);
+          vcardLines.push(`EMAIL:${vcardEscape(value)}`);
+          break;
+        case 'ORG':
+          pushField(fields, 'payload.field.organization', value);
+          vcardLines.push(`ORG:${vcardEscape(value)}`);
+          break;
+        case 'ADR':
+          pushField(fields, 'payload.field.address', value);
+          vcardLines.push(`ADR:;;${vcardEscape(value)};;;;`);
+          break;
+        case 'URL':
+          pushField(fields, 'payload.field.website', value);
+          vcardLines.push(`URL:${vcardEscape(value)}`);
+          break;
+        case 'NOTE':
+          pushField(fields, 'payload.field.note', value);
+          vcardLines.push(`NOTE:${vcardEscape(value)}`);
+          break;
+        default:
+          break;
+      }
+    }
+    vcardLines.push('END:VCARD');
+    return {
+      fields,
+      actions: [
+        { kind: 'download', label: { key: 'payload.action.downloadVcf' }, filename: `${safeFilename(name, 'contact')}.vcf`, content: vcardLines.join('\r\n'), mimeType: 'text/vcard' },
+      ],
+    };
+  },
+};
+
+// --- URI schemes ---
+
+export const mailtoParser: PayloadParser = {
+  type: 'email',
+  label: { key: 'payload.type.email' },
+  priority: 80,
+  parse(raw) {
+    const text = raw.trim();
+    if (!/^mailto:/i.test(text)) return null;
+    const [addressPart, query = ''] = text.substring(7).split('?');
+    const address = decodeURIComponent(addressPart);
+    const params = new URLSearchParams(query);
+    const fields: PayloadField[] = [];
+    pushField(fields, 'payload.field.to', address);
+    pushField(fields, 'payload.field.cc', params.get('cc') ?? undefined);
+    pushField(fields, 'payload.field.subject', params.get('subject') ?? undefined);
+    pushField(fields, 'payload.field.body', params.get('body') ?? undefined);
+    const actions: PayloadAction[] = [{ kind: 'open', label: { key: 'payload.action.composeEmail' }, url: text, confirm: false }];
+    if (address) actions.push({ kind: 'copy', label: { key: 'payload.action.copyAddress' }, text: address });
+    return { fields, actions };
+  },
+};
+
+export const telParser: PayloadParser = {
+  type: 'tel',
+  label: { key: 'payload.type.tel' },
+  priority: 80,
+  parse(raw) {
+    const text = raw.trim();
+    if (!/^tel:/i.test(text)) return null;
+    const number = decodeURIComponent(text.substring(4));
+    if (!/^[+\d][\d\s()./-]*$/.test(number)) return null;
+    return {
+      fields: [{ label: { key: 'payload.field.number' }, value: number }],
+      actions: [
+        { kind: 'open', label: { key: 'payload.action.call' }, url: `tel:${number.replace(/[\s()./-]/g, '')}`, confirm: false },
+        { kind: 'copy', label: { key: 'payload.action.copyNumber' }, text: number },
+      ],
+    };
+  },
+};
+
+export const geoParser: PayloadParser = {
+  type: 'geo',
+  label: { key: 'payload.type.geo' },
+  priority: 80,
+  parse(raw) {
+    const match = raw.trim().match(/^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,(-?\d+(?:\.\d+)?))?(?:;[^?]*)?(?:\?(.*))?$/i);
+    if (!match) return null;
+    const [, lat, lng, alt, query] = match;
+    const latNum = Number(lat);
+    const lngNum = Number(lng);
+    if (Math.abs(latNum) > 90 || Math.abs(lngNum) > 180) return null;
+    const fields: PayloadField[] = [
+      { label: { key: 'payload.field.latitude' }, value: lat },
+      { label: { key: 'payload.field.longitude' }, value: lng },
+    ];
+    pushField(fields, 'payload.field.altitude', alt);
+    pushField(fields, 'payload.field.query', query ? new URLSearchParams(query).get('q') ?? undefined : undefined);
+    const mapUrl = `https://www.openstreetmap.org/?mlat=${latNum}&mlon=${lngNum}#map=16/${latNum}/${lngNum}`;
+    return {
+      fields,
+      actions: [
+        { kind: 'open', label: { key: 'payload.action.showOnMap' }, url: mapUrl, confirm: true },
+        { kind: 'copy', label: { key: 'payload.action.copyCoordinates' }, text: `${lat},${lng}` },
+      ],
+    };
+  },
+};
+
+// --- Payments ---
+
+/**
+ * EPC069-12 "GiroCode" SEPA credit transfer.
+ * Lines: BCD, version, charset, SCT, BIC, name, IBAN, amount, purpose, reference, text, info.
+ */
+export const epcParser: PayloadParser = {
+  type: 'epc',
+  label: { key: 'payload.type.epc' },
+  priority: 95,
+  parse(raw) {
+    const lines = raw.split(/\r?\n/);
+    if (lines[0]?.trim() !== 'BCD' || lines[3]?.trim() !== 'SCT') return null;
+    const [, version, , , bic, name, iban, amount, purpose, reference, text, info] = lines.map(l => l.trim());
+    if (!iban) return null;
+    const fields: PayloadField[] = [];
+    pushField(fields, 'payload.field.beneficiary', name);
+    pushField(fields, 'payload.field.iban', iban);
+    pushField(fields, 'payload.field.bic', bic);
+    if (amount) {
+      const amountMatch = amount.match(/^([A-Z]{3})(\d+(?:\.\d{1,2})?)$/);
+      pushField(fields, 'payload.field.amount', amountMatch ? `${amountMatch[2]} ${amountMatch[1]}` : amount);
+    }
+    pushField(fields, 'payload.field.purpose', purpose);
+    pushField(fields, 'payload.field.reference', reference);
+    pushField(fields, 'payload.field.remittance', text);
+    pushField(fields, 'payload.field.information', info);
+    pushField(fields, 'payload.field.version', version);
+    const actions: PayloadAction[] = [{ kind: 'copy', label: { key: 'payload.action.copyIban' }, text: iban }];
+    if (reference || text) {
+      actions.push({ kind: 'copy', label: { key: 'payload.action.copyReference' }, text: reference || text });
+    }
+    return { fields, actions };
+  },
+};
+
+/**
+ * Swiss QR-bill (SPC, Swiss Implementation Guidelines v2.x).
+ * Fixed line positions; creditor at 4-10, amount/currency at 18-19, debtor at 20-26, reference at 27-29.
+ */
+export const swissQrBillParser: PayloadParser = {
+  type: 'swiss-qr-bill',
+  label: { key: 'payload.type.swissQrBill' },
+  priority: 95,
+  parse(raw) {
+    const lines = raw.split(/\r?\n/).map(l => l.trim());
+    if (lines[0] !== 'SPC' || lines.length < 31) return null;
+    const formatAddress = (offset: number) => {
+      const [type, name, line1, line2, postal, town, country] = lines.slice(offset, offset + 7);
+      const locality = type === 'K' ? line2 : [postal, town].filter(Boolean).join(' ');
+      const street = type === 'K' ? line1 : [line1, line2].filter(Boolean).join(' ');
+      return { name, address: [street, locality, country].filter(Boolean).join(', ') };
+    };
+    const creditor = formatAddress(4);
+    const debtor = formatAddress(20);
+    const [amount, currency] = [lines[18], lines[19]];
+    const [refType, reference, message] = [lines[27], lines[28], lines[29]];
+    const fields: PayloadField[] = [];
+    pushField(fields, 'payload.field.creditor', creditor.name);
+    pushField(fields, 'payload.field.creditorAddress', creditor.address);
+    pushField(fields, 'payload.field.iban', lines[3]);
+    if (amount) {
+      pushField(fields, 'payload.field.amount', `${amount} ${currency}`);
+    } else {
+      fields.push({ label: { key: 'payload.field.amount' }, value: { key: 'payload.value.openAmount', params: { currency } } });
+    }
+    pushField(fields, 'payload.field.debtor', debtor.name);
+    pushField(fields, 'payload.field.debtorAddress', debtor.address);
+    pushField(fields, { key: 'payload.field.referenceType', params: { type: refType } }, refType !== 'NON' ? reference : '');
+    pushField(fields, 'payload.field.message', message);
+    const actions: PayloadAction[] = [{ kind: 'copy', label: { key: 'payload.action.copyIban' }, text: lines[3] }];
+    if (refType !== 'NON' && reference) {
+      actions.push({ kind: 'copy', label: { key: 'payload.action.copyReference' }, text: reference });
+    }
+    return { fields, actions };
+  },
+};
+
+// --- GS1 ---
+
+const GS = '\u001d';
+
+// Application Identifiers we know by name (catalog keys with an {ai} placeholder);
+// `fixed` is the data length for predefined-length AIs
+const GS1_AIS: Record<string, { title: MessageKey; fixed?: number; max?: number }> = {
+  '00': { title: 'payload.gs1.sscc', fixed: 18 },
+  '01': { title: 'payload.gs1.gtin', fixed: 14 },
+  '02': { title: 'payload.gs1.contentGtin', fixed: 14 },
+  '10': { title: 'payload.gs1.batch', max: 20 },
+  '11': { title: 'payload.gs1.productionDate', fixed: 6 },
+  '13': { title: 'payload.gs1.packagingDate', fixed: 6 },
+  '15': { title: 'payload.gs1.bestBefore', fixed: 6 },
+  '17': { title: 'payload.gs1.expiryDate', fixed: 6 },
+  '20': { title: 'payload.gs1.variant', fixed: 2 },
+  '21': { title: 'payload.gs1.serialNumber', max: 20 },
+  '30': { title: 'payload.gs1.variableCount', max: 8 },
+  '37': { title: 'payload.gs1.count', max: 8 },
+  '240': { title: 'payload.gs1.additionalProductId', max: 30 },
+  '241': { title: 'payload.gs1.customerPartNumber', max: 30 },
+  '400': { title: 'payload.gs1.customerOrderNumber', max: 30 },
+  '410': { title: 'payload.gs1.shipToGln', fixed: 13 },
+  '414': { title: 'payload.gs1.locationGln', fixed: 13 },
+  '420': { title: 'payload.gs1.shipToPostalCode', max: 20 },
+};
+
+// Measures (310n-369n) have a 4-digit AI with 6 data digits; the last AI digit is the decimal position
+function lookupAi(data: string): { ai: string; title: Translatable; fixed?: number; max?: number } | null {
+  for (const len of [2, 3, 4]) {
+    const ai = data.substring(0, len);
+    if (GS1_AIS[ai]) return { ...GS1_AIS[ai], ai, title: { key: GS1_AIS[ai].title, params: { ai } } };
+  }
+  if (/^3[1-6]\d\d/.test(data)) {
+    const ai = data.substring(0, 4);
+    return { ai, title: { key: 'payload.gs1.measure', params: { ai, base: ai.substring(0, 3), decimals: ai[3] } }, fixed: 6 };
+  }
+  return null;
+}
+
+function formatGs1Value(ai: string, value: string): string {
+  // YYMMDD dates; DD=00 means end of month
+  if (/^1[1-7]$/.test(ai) && /^\d{6}$/.test(value)) {
+    return `20${value.substring(0, 2)}-${value.substring(2, 4)}-${value.substring(4, 6) === '00' ? 'end' : value.substring(4, 6)}`;
+  }
+  return value;
+}
+
+/**
+ * Parses GS1 element strings in human-readable "(01)…(10)…" form, or raw form
+ * with an AIM symbology identifier (]C1, ]d2, ]Q3, ]e0) and GS separators.
+ */
+export function parseGs1(raw: string): Array<{ ai: string; title: Translatable; value: string }> | null {
+  const elements: Array<{ ai: string; title: Translatable; value: string }> = [];
+  const text = raw.trim();
+  if (text.startsWith('(')) {
+    const re = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+    while ((match = re.exec(text)) !== null) {
+      if (match.index !== consumed) return null;
+      consumed = re.lastIndex;
+      const known = lookupAi(match[1]);
+      elements.push({ ai: match[1], title: known?.ai === match[1] ? known.title : { key: 'payload.gs1.unknown', params: { ai: match[1] } }, value: match[2] });
+    }
+    return consumed === text.length && elements.length > 0 ? elements : null;
+  }
+
+  const prefixed = text.match(/^\](C1|d2|Q3|e0)/);
+  if (!prefixed && !text.includes(GS)) return null;
+  let data = prefixed ? text.substring(3) : text;
+  if (data.startsWith(GS)) data = data.substring(1);
+  while (data.length > 0) {
+    const known = lookupAi(data);
+    if (!known) return elements.length > 0 ? elements : null;
+    data = data.substring(known.ai.length);
+    let value: string;
+    if (known.fixed) {
+      value = data.substring(0, known.fixed);
+      data = data.substring(known.fixed);
+      if (data.startsWith(GS)) data = data.substring(1);
+    } else {
+      const end = data.indexOf(GS);
+      value = end >= 0 ? data.substring(0, end) : data;
+      data = end >= 0 ? data.substring(end + 1) : '';
+    }
+    elements.push({ ai: known.ai, title: known.title, value });
+  }
+  return elements.length > 0 ? elements : null;
+}
+
+export const gs1Parser: PayloadParser = {
+  type: 'gs1',
+  label: { key: 'payload.type.gs1' },
+  priority: 70,
+  parse(raw) {
+    const elements = parseGs1(raw);
+    if (!elements) return null;
+    const fields = elements.map(e => ({ label: e.title, value: formatGs1Value(e.ai, e.value) }));
+    const gtin = elements.find(e => e.ai === '01');
+    const actions: PayloadAction[] = gtin ? [{ kind: 'copy', label: { key: 'payload.action.copyGtin' }, text: gtin.value }] : [];
+    actions.push({ kind: 'copy', label: { key: 'payload.action.copyAll' }, text: elements.map(e => `(${e.ai})${e.value}`).join('') });
+    return { fields, actions };
+  },
+};
+
+export const builtinPayloadParsers: PayloadParser[] = [
+  epcParser,
+  swissQrBillParser,
+  wifiParser,
+  vcardParser,
+  mecardParser,
+  mailtoParser,
+  telParser,
+  geoParser,
+  gs1Parser,
+  urlParser,
+];
@@ -0,0 +1,12 @@
+/**
+ * Payload classification for decoded codes.
+ * Importing this module registers the built-in parsers; apps can add their own via registerPayloadParser.
+ */
+import { registerPayloadParser } from './registry';
+import { builtinPayloadParsers } from './builtinParsers';
+
+builtinPayloadParsers.forEach(parser => registerPayloadParser(parser));
+
+export { registerPayloadParser, getPayloadParsers, parsePayload } from './registry';
+export { parseGs1 } from './builtinParsers';
+export type { ParsedPayload, PayloadAction, PayloadField, PayloadParser } from './types';
@@ -0,0 +1,47 @@
+import { ParsedPayload, PayloadParser } from './types';
+
+const parsers: PayloadParser[] = [];
+
+/**
+ * Adds a parser to the registry. A parser with the same type replaces the previous one.
+ * @returns A function that removes the parser again.
+ */
+export function registerPayloadParser(parser: PayloadParser): () => void {
+  const existing = parsers.findIndex(p => p.type === parser.type);
+  if (existing >= 0) parsers.splice(existing, 1);
+  parsers.push(parser);
+  // Stable sort keeps registration order for equal priorities
+  parsers.sort((a, b) => b.priority - a.priority);
+  return () => {
+    const idx = parsers.indexOf(parser);
+    if (idx >= 0) parsers.splice(idx, 1);
+  };
+}
+
+export function getPayloadParsers(): readonly PayloadParser[] {
+  return parsers;
+}
+
+/**
+ * Classifies a decoded string using the registered parsers.
+ * Falls back to plain text if no parser matches or a parser throws.
+ */
+export function parsePayload(raw: string): ParsedPayload {
+  for (const parser of parsers) {
+    try {
+      const result = parser.parse(raw);
+      if (result) {
+        return { type: parser.type, label: parser.label, raw, ...result };
+      }
+    } catch {
+      // A faulty parser must not break classification; try the next one
+    }
+  }
+  return {
+    type: 'text',
+    label: { key: 'payload.type.text' },
+    raw,
+    fields: [],
+    actions: [{ kind: 'copy', label: { key: 'payload.action.copyText' }, text: raw }],
+  };
+}
@@ -0,0 +1,39 @@
+import type { Translatable } from '../i18n';
+
+/** A labelled value extracted from a payload, shown in the structured view. Labels are translated by the UI. */
+export interface PayloadField {
+  label: Translatable;
+  /** Decoded text as is, or a Translatable for text the parser adds itself (e.g. warnings). */
+  value: string | Translatable;
+  /** Mask the value in the UI until revealed (e.g. Wi-Fi passwords). */
+  sensitive?: boolean;
+}
+
+/** An action offered for a parsed payload. Actions are plain data; the UI executes them. */
+export type PayloadAction =
+  | { kind: 'open'; label: Translatable; url: string; /** Ask the user before navigating. */ confirm: boolean }
+  | { kind: 'copy'; label: Translatable; text: string }
+  | { kind: 'download'; label: Translatable; filename: string; content: string; mimeType: string };
+
+/** Result of classifying a decoded string. */
+export interface ParsedPayload {
+  /** Identifier of the parser that matched (e.g. 'url', 'wifi'). */
+  type: string;
+  /** Human-readable type name. */
+  label: Translatable;
+  /** The original decoded string. */
+  raw: string;
+  fields: PayloadField[];
+  actions: PayloadAction[];
+}
+
+/**
+ * A parser plugin. `parse` returns null when the payload is not of its type.
+ */
+export interface PayloadParser {
+  type: string;
+  label: Translatable;
+  /** Higher runs first. Built-ins use 10-100; the text fallback is not part of the registry. */
+  priority: number;
+  parse: (raw: string) => Omit<ParsedPayload, 'type' | 'label' | 'raw'> | null;
+}
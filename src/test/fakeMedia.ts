@@ -0,0 +1,286 @@
+// Synthetic cameras for tests: getUserMedia/enumerateDevices fakes, tracks that carry a pixel frame,
+// and <video>/<canvas> stubs so FrameScanner can draw and decode those frames under jsdom.
+import QRCode from 'qrcode';
+
+/** RGBA pixels of one video frame; what FrameScanner reads back via getImageData(). */
+export interface FakeFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface FakeCamera {
+  deviceId: string;
+  label: string;
+  facingMode?: 'user' | 'environment';
+  /** Frame the camera delivers (default: blank). */
+  frame?: FakeFrame;
+}
+
+export function blankFrame(width = 320, height = 240): FakeFrame {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) };
+}
+
+/**
+ * Renders a QR code for `text` into a frame (black modules on white with a quiet zone).
+ */
+export function renderQrFrame(text: string, { scale = 4, margin = 4 }: { scale?: number; margin?: number } = {}): FakeFrame {
+  const { size, data: modules } = QRCode.create(text, { errorCorrectionLevel: 'M' }).modules;
+  const dimension = (size + margin * 2) * scale;
+  const frame = blankFrame(dimension, dimension);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (!modules[row * size + col]) continue;
+      for (let y = 0; y < scale; y++) {
+        for (let x = 0; x < scale; x++) {
+          const offset = (((row + margin) * scale + y) * dimension + (col + margin) * scale + x) * 4;
+          frame.data.fill(0, offset, offset + 3);
+        }
+      }
+    }
+  }
+  return frame;
+}
+
+let trackCounter = 0;
+
+export class FakeMediaStreamTrack extends EventTarget {
+  readonly kind = 'video';
+  readonly id = `track-${++trackCounter}`;
+  readyState: MediaStreamTrackState = 'live';
+  muted = false;
+  enabled = true;
+  private readonly camera: FakeCamera;
+
+  constructor(camera: FakeCamera) {
+    super();
+    this.camera = camera;
+  }
+
+  get label(): string {
+    return this.camera.label;
+  }
+
+  /** Current frame; null once the track ended or while it is muted. */
+  get frame(): FakeFrame | null {
+    if (this.readyState !== 'live' || this.muted) return null;
+    return this.camera.frame ?? blankFrame();
+  }
+
+  getSettings(): MediaTrackSettings {
+    const frame = this.camera.frame ?? blankFrame();
+    return { deviceId: this.camera.deviceId, width: frame.width, height: frame.height, facingMode: this.camera.facingMode };
+  }
+
+  getCapabilities(): MediaTrackCapabilities {
+    return {};
+  }
+
+  getConstraints(): MediaTrackConstraints {
+    return {};
+  }
+
+  async applyConstraints(): Promise<void> {}
+
+  // Like the real API, stop() does not fire 'ended'
+  stop(): void {
+    this.readyState = 'ended';
+  }
+
+  /** The camera went away (unplugged, revoked by the OS). */
+  simulateEnded(): void {
+    if (this.readyState === 'ended') return;
+    this.readyState = 'ended';
+    this.dispatchEvent(new Event('ended'));
+  }
+
+  simulateMute(muted: boolean): void {
+    this.muted = muted;
+    this.dispatchEvent(new Event(muted ? 'mute' : 'unmute'));
+  }
+}
+
+export class FakeMediaStream {
+  readonly id = `stream-${trackCounter}`;
+  private readonly tracks: FakeMediaStreamTrack[];
+
+  constructor(tracks: FakeMediaStreamTrack[] = []) {
+    this.tracks = tracks;
+  }
+
+  getTracks(): FakeMediaStreamTrack[] {
+    return [...this.tracks];
+  }
+
+  getVideoTracks(): FakeMediaStreamTrack[] {
+    return this.getTracks();
+  }
+
+  getAudioTracks(): FakeMediaStreamTrack[] {
+    return [];
+  }
+}
+
+export interface FakeMediaDevices {
+  /** Every track handed out by getUserMedia, oldest first. */
+  tracks: FakeMediaStreamTrack[];
+  getUserMedia: (constraints?: MediaStreamConstraints) => Promise<FakeMediaStream>;
+  /** MediaDeviceInfo list for the connected cameras (what CameraManager.listDevices returns). */
+  listDevices: () => MediaDeviceInfo[];
+  /** Makes getUserMedia reject with a DOMException of this name until cleared with null. */
+  failWith: (name: string | null) => void;
+  /** Connects a camera and fires devicechange. */
+  plug: (camera: FakeCamera) => void;
+  /** Disconnects a camera: its live tracks end and devicechange fires. */
+  unplug: (deviceId: string) => void;
+  /** Tracks that haven't been stopped or ended. */
+  liveTracks: () => FakeMediaStreamTrack[];
+}
+
+const toDeviceInfo = (camera: FakeCamera): MediaDeviceInfo => ({
+  deviceId: camera.deviceId,
+  groupId: `group-${camera.deviceId}`,
+  kind: 'videoinput',
+  label: camera.label,
+  toJSON() {
+    return this;
+  },
+});
+
+/**
+ * Installs navigator.mediaDevices (and a global MediaStream) backed by the given cameras.
+ */
+export function installFakeMediaDevices(initialCameras: FakeCamera[]): FakeMediaDevices {
+  const cameras = [...initialCameras];
+  const tracks: FakeMediaStreamTrack[] = [];
+  const target = new EventTarget();
+  let failure: string | null = null;
+
+  const getUserMedia = async (constraints?: MediaStreamConstraints) => {
+    if (failure) throw new DOMException(`Fake ${failure}`, failure);
+    const video = constraints?.video;
+    const requested = typeof video === 'object' ? video.deviceId : undefined;
+    const exactId = typeof requested === 'object' && !Array.isArray(requested) ? requested.exact : requested;
+    let camera: FakeCamera | undefined;
+    if (exactId) {
+      camera = cameras.find(c => c.deviceId === exactId);
+      if (!camera) throw new DOMException('Requested device not found', 'OverconstrainedError');
+    } else {
+      camera = cameras.find(c => c.facingMode === 'environment') ?? cameras[0];
+      if (!camera) throw new DOMException('Requested device not found', 'NotFoundError');
+    }
+    const track = new FakeMediaStreamTrack(camera);
+    tracks.push(track);
+    return new FakeMediaStream([track]);
+  };
+
+  const mediaDevices = Object.assign(target, {
+    getUserMedia,
+    enumerateDevices: async () => cameras.map(toDeviceInfo),
+  });
+  Object.defineProperty(navigator, 'mediaDevices', { value: mediaDevices, configurable: true });
+  Object.defineProperty(globalThis, 'MediaStream', { value: FakeMediaStream, configurable: true, writable: true });
+
+  return {
+    tracks,
+    getUserMedia,
+    listDevices: () => cameras.map(toDeviceInfo),
+    failWith: name => {
+      failure = name;
+    },
+    plug: camera => {
+      cameras.push(camera);
+      target.dispatchEvent(new Event('devicechange'));
+    },
+    unplug: deviceId => {
+      const index = cameras.findIndex(c => c.deviceId === deviceId);
+      if (index < 0) return;
+      cameras.splice(index, 1);
+      tracks.filter(t => t.getSettings().deviceId === deviceId).forEach(t => t.simulateEnded());
+      target.dispatchEvent(new Event('devicechange'));
+    },
+    liveTracks: () => tracks.filter(t => t.readyState === 'live'),
+  };
+}
+
+// Frame currently shown by a <video> whose srcObject is a FakeMediaStream
+const frameOf = (source: unknown): FakeFrame | null => {
+  const stream: unknown = (source as HTMLVideoElement).srcObject;
+  return stream instanceof FakeMediaStream ? stream.getVideoTracks()[0]?.frame ?? null : null;
+};
+
+// Copies a rectangle out of a frame; pixels outside the frame stay transparent
+function crop(frame: FakeFrame, sx: number, sy: number, width: number, height: number): FakeFrame {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sourceY = sy + y;
+    if (sourceY < 0 || sourceY >= frame.height) continue;
+    for (let x = 0; x < width; x++) {
+      const sourceX = sx + x;
+      if (sourceX < 0 || sourceX >= frame.width) continue;
+      const from = (sourceY * frame.width + sourceX) * 4;
+      data.set(frame.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Minimal media element and 2D canvas behaviour jsdom lacks: play() resolves and fires
+ * loadedmetadata, readyState/videoWidth follow the attached fake stream, and drawImage()
+ * + getImageData() copy that stream's frame.
+ */
+export function installMediaElementStubs(): void {
+  const sources = new WeakMap<HTMLMediaElement, unknown>();
+  Object.defineProperty(HTMLMediaElement.prototype, 'srcObject', {
+    configurable: true,
+    get(this: HTMLMediaElement) {
+      return sources.get(this) ?? null;
+    },
+    set(this: HTMLMediaElement, value: unknown) {
+      sources.set(this, value);
+    },
+  });
+  Object.defineProperty(HTMLMediaElement.prototype, 'readyState', {
+    configurable: true,
+    get(this: HTMLMediaElement) {
+      return frameOf(this) ? 4 : 0;
+    },
+  });
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoWidth', {
+    configurable: true,
+    get(this: HTMLVideoElement) {
+      return frameOf(this)?.width ?? 0;
+    },
+  });
+  Object.defineProperty(HTMLVideoElement.prototype, 'videoHeight', {
+    configurable: true,
+    get(this: HTMLVideoElement) {
+      return frameOf(this)?.height ?? 0;
+    },
+  });
+  HTMLMediaElement.prototype.play = function (this: HTMLMediaElement) {
+    if (this.srcObject) setTimeout(() => this.dispatchEvent(new Event('loadedmetadata')), 0);
+    return Promise.resolve();
+  };
+  HTMLMediaElement.prototype.pause = () => {};
+
+  // Path and transform calls (aiming overlay) only need to exist
+  const noop = () => {};
+  const drawingStubs = Object.fromEntries(
+    ['setTransform', 'clearRect', 'beginPath', 'closePath', 'rect', 'moveTo', 'lineTo', 'fill', 'stroke', 'strokeRect', 'fillRect']
+      .map(name => [name, noop])
+  );
+  HTMLCanvasElement.prototype.getContext = function () {
+    let drawn: FakeFrame | null = null;
+    return {
+      ...drawingStubs,
+      drawImage: (source: unknown, sx: number, sy: number, sw: number, sh: number) => {
+        const frame = frameOf(source);
+        drawn = frame ? crop(frame, sx, sy, sw, sh) : null;
+      },
+      getImageData: (x: number, y: number, width: number, height: number) =>
+        drawn ? crop(drawn, x, y, width, height) : blankFrame(width, height),
+    };
+  } as unknown as HTMLCanvasElement['getContext'];
+}
@@ -0,0 +1,20 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installMediaElementStubs } from './fakeMedia';
+
+// Also loaded for the server tests, which run in the node environment
+if (typeof window !== 'undefined') {
+  installMediaElementStubs();
+
+  // jsdom has no layout, so nothing would ever be observed (used by the aiming overlay)
+  globalThis.ResizeObserver ??= class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+
+  // Without vitest globals, Testing Library can't register its own cleanup
+  afterEach(() => {
+    cleanup();
+  });
+}
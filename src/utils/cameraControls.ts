@@ -0,0 +1,129 @@
+// Live camera controls (torch, zoom, focus, resolution, frame rate) on the active video track.
+// The DOM typings don't include the image-capture extensions, so they are declared here.
+
+interface NumericRange {
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+/** Capabilities as reported by MediaStreamTrack.getCapabilities(), including image-capture extensions. */
+export interface ExtendedTrackCapabilities {
+  width?: NumericRange;
+  height?: NumericRange;
+  frameRate?: NumericRange;
+  zoom?: NumericRange;
+  torch?: boolean;
+  focusMode?: string[];
+}
+
+/** User-selectable settings; undefined means "leave as is". */
+export interface CameraSettings {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  /** Requested resolution as "<width>x<height>". */
+  resolution?: string;
+  frameRate?: number;
+}
+
+export const RESOLUTION_PRESETS = ['640x480', '1280x720', '1920x1080', '3840x2160'];
+export const FRAME_RATE_PRESETS = [15, 24, 30, 60];
+
+const STORAGE_KEY = 'qr-scanner.cameraSettings';
+
+/**
+ * Returns the first video track of the stream attached to a video element, if any.
+ */
+export function getVideoTrack(video: HTMLVideoElement | null): MediaStreamTrack | null {
+  const stream = video?.srcObject;
+  if (!(stream instanceof MediaStream)) return null;
+  return stream.getVideoTracks()[0] ?? null;
+}
+
+/**
+ * Reads the track's capabilities (empty if the browser doesn't implement getCapabilities, e.g. Firefox).
+ */
+export function getTrackCapabilities(track: MediaStreamTrack): ExtendedTrackCapabilities {
+  if (typeof track.getCapabilities !== 'function') return {};
+  return track.getCapabilities() as ExtendedTrackCapabilities;
+}
+
+/**
+ * Resolution presets that fit within the track's reported maximum.
+ */
+export function supportedResolutions(capabilities: ExtendedTrackCapabilities): string[] {
+  const { width, height } = capabilities;
+  if (!width?.max || !height?.max) return [];
+  return RESOLUTION_PRESETS.filter(preset => {
+    const [w, h] = preset.split('x').map(Number);
+    // Also allow portrait sensors reporting swapped dimensions
+    return (w <= width.max! && h <= height.max!) || (h <= width.max! && w <= height.max!);
+  });
+}
+
+export function supportedFrameRates(capabilities: ExtendedTrackCapabilities): number[] {
+  const max = capabilities.frameRate?.max;
+  if (!max) return [];
+  return FRAME_RATE_PRESETS.filter(rate => rate <= max);
+}
+
+/**
+ * Applies settings to the live track. Settings the track does not support are skipped.
+ * applyConstraints() replaces the whole constraint set, so pass all settings together with the
+ * constraints the track was started with (`base`): cleared settings fall back to those.
+ * @throws If the browser rejects the constraints (OverconstrainedError).
+ */
+export async function applyCameraSettings(
+  track: MediaStreamTrack,
+  settings: CameraSettings,
+  base: MediaTrackConstraints = {}
+): Promise<void> {
+  const capabilities = getTrackCapabilities(track);
+  const constraints: MediaTrackConstraints = { ...base };
+  // Image-capture properties must go into `advanced` to be honoured by Chrome
+  const advanced: Record<string, unknown> = {};
+
+  if (settings.torch !== undefined && capabilities.torch) {
+    advanced.torch = settings.torch;
+  }
+  if (settings.zoom !== undefined && capabilities.zoom) {
+    advanced.zoom = settings.zoom;
+  }
+  if (settings.focusMode && capabilities.focusMode?.includes(settings.focusMode)) {
+    advanced.focusMode = settings.focusMode;
+  }
+  if (settings.resolution) {
+    const [width, height] = settings.resolution.split('x').map(Number);
+    constraints.width = { ideal: width };
+    constraints.height = { ideal: height };
+  }
+  if (settings.frameRate) {
+    constraints.frameRate = { ideal: settings.frameRate };
+  }
+  if (Object.keys(advanced).length > 0) {
+    constraints.advanced = [advanced as MediaTrackConstraintSet];
+  }
+  await track.applyConstraints(constraints);
+}
+
+// Helper: All stored settings keyed by deviceId
+function readAll(): Record<string, CameraSettings> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function loadCameraSettings(deviceId: string): CameraSettings {
+  return readAll()[deviceId] ?? {};
+}
+
+export function saveCameraSettings(deviceId: string, settings: CameraSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [deviceId]: settings }));
+  } catch (e) {
+    console.error('Local storage unavailable for camera settings persistence.', e);
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Offers text content as a file download via a temporary object URL.
+ * @param filename Suggested file name.
+ * @param content The file content.
+ * @param mimeType MIME type of the content.
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,81 @@
+/** Outcome of a scan as signalled to the user. */
+export type FeedbackKind = 'new' | 'duplicate' | 'rejected';
+
+interface ToneSpec {
+  frequency: number;
+  durationMs: number;
+  /** Number of beeps, separated by `durationMs` of silence. */
+  count: number;
+  type: OscillatorType;
+}
+
+// High single beep = new, two short mid beeps = duplicate, long low buzz = rejected
+const TONES: Record<FeedbackKind, ToneSpec> = {
+  new: { frequency: 1400, durationMs: 120, count: 1, type: 'sine' },
+  duplicate: { frequency: 900, durationMs: 60, count: 2, type: 'sine' },
+  rejected: { frequency: 220, durationMs: 350, count: 1, type: 'square' },
+};
+
+export const VIBRATION_PATTERNS: Record<FeedbackKind, number[]> = {
+  new: [80],
+  duplicate: [30, 60, 30],
+  rejected: [200, 100, 200],
+};
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (!audioContext) {
+    const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctor) return null;
+    audioContext = new Ctor();
+  }
+  return audioContext;
+}
+
+/**
+ * Creates or resumes the shared AudioContext. Browsers only allow this during a
+ * user gesture, so call it from an input event before the first beep.
+ */
+export function unlockFeedbackAudio(): void {
+  const context = getAudioContext();
+  if (context?.state === 'suspended') {
+    void context.resume();
+  }
+}
+
+/**
+ * Plays the beep for `kind` (no-op without WebAudio or while the context is still locked).
+ * @param volume Gain between 0 and 1.
+ */
+export function playFeedbackTone(kind: FeedbackKind, volume: number): void {
+  const context = getAudioContext();
+  if (!context || context.state !== 'running' || volume <= 0) return;
+  const tone = TONES[kind];
+  const seconds = tone.durationMs / 1000;
+  const gainValue = Math.min(1, volume) * (tone.type === 'square' ? 0.3 : 1);
+  for (let i = 0; i < tone.count; i++) {
+    const start = context.currentTime + i * seconds * 2;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = tone.type;
+    oscillator.frequency.value = tone.frequency;
+    // Short ramps avoid clicks at the edges
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(gainValue, start + 0.01);
+    gain.gain.setValueAtTime(gainValue, start + seconds - 0.01);
+    gain.gain.linearRampToValueAtTime(0, start + seconds);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + seconds);
+  }
+}
+
+/**
+ * Vibrates with the pattern for `kind` where supported.
+ */
+export function vibrateFeedback(kind: FeedbackKind): void {
+  if (typeof navigator.vibrate === 'function') {
+    navigator.vibrate(VIBRATION_PATTERNS[kind]);
+  }
+}
@@ -0,0 +1,187 @@
+import jsQR from 'jsqr';
+import { CameraManager, LogLevel, ScannerOptions } from 'qr-scanner-library';
+import { DecodedCode, cornersOf } from './imageDecoder';
+import { RegionOfInterest, roiToVideoRect } from './overlayGeometry';
+import { ScanStats, createScanStats } from './scanMetrics';
+
+/** A decoded code with its position in the video frame. */
+export interface Detection extends DecodedCode {
+  /** Intrinsic video size the corners refer to. */
+  videoWidth: number;
+  videoHeight: number;
+  timestamp: number;
+}
+
+/**
+ * ScannerService-compatible options plus region-of-interest decoding and detection geometry.
+ */
+export type FrameScannerOptions = ScannerOptions & {
+  /** Decode only this part of the visible frame; null/undefined decodes the whole frame. */
+  regionOfInterest?: RegionOfInterest | null;
+  /** Called with the corner polygon (in video pixels) for every successful decode. */
+  onDetection?: (detection: Detection) => void;
+};
+
+const DEFAULT_SCAN_INTERVAL_MS = 200;
+
+/**
+ * Drop-in replacement for the library's ScannerService that owns the decode loop.
+ * It uses the library's CameraManager for the stream, but crops every frame to the
+ * region of interest before running jsQR and reports where the code was found.
+ */
+class FrameScanner {
+  private cameraManager = new CameraManager();
+  private options: FrameScannerOptions;
+  private isScanning = false;
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private canvasElement: HTMLCanvasElement;
+  private canvasContext: CanvasRenderingContext2D;
+  private stats: ScanStats = createScanStats();
+
+  /**
+   * @param options - Configuration options for the scanner.
+   * @throws If a 2D canvas context cannot be created.
+   */
+  constructor(options: FrameScannerOptions) {
+    this.options = options;
+    this.cameraManager.setVideoElement(options.videoElement);
+    this.canvasElement = document.createElement('canvas');
+    const context = this.canvasElement.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('FrameScanner: Could not create 2D canvas context.');
+    }
+    this.canvasContext = context;
+    this.log(LogLevel.INFO, 'FrameScanner initialized.');
+  }
+
+  /**
+   * Starts the camera stream and the decode loop.
+   * @throws If the camera cannot be started (the error is also passed to onError).
+   */
+  async start(): Promise<void> {
+    if (this.isScanning) {
+      this.log(LogLevel.WARN, 'FrameScanner: start() called while already scanning.');
+      return;
+    }
+    this.log(LogLevel.INFO, 'FrameScanner: Starting scan...');
+    this.stats = createScanStats();
+    try {
+      await this.cameraManager.startStream(this.options.deviceId);
+      this.isScanning = true;
+      this.log(LogLevel.INFO, 'FrameScanner: Camera stream started successfully.');
+      this.scheduleNext(0);
+    } catch (error) {
+      this.log(LogLevel.ERROR, 'FrameScanner: Failed to start camera.', error instanceof Error ? error.message : String(error));
+      this.isScanning = false;
+      this.stats.errors += 1;
+      this.options.onError(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the decode loop and releases the camera.
+   */
+  stop(): void {
+    if (!this.isScanning) return;
+    this.log(LogLevel.INFO, 'FrameScanner: Stopping scan...');
+    this.isScanning = false;
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.cameraManager.stopStream();
+    this.log(LogLevel.INFO, 'FrameScanner: Scan stopped.');
+  }
+
+  getIsScanning(): boolean {
+    return this.isScanning;
+  }
+
+  /** Copy of the decode counters since the last start() (see scanMetrics.ts). */
+  getStats(): ScanStats {
+    return { ...this.stats };
+  }
+
+  /** Changes the region of interest of a running scanner (takes effect on the next frame). */
+  setRegionOfInterest(roi: RegionOfInterest | null): void {
+    this.options = { ...this.options, regionOfInterest: roi };
+  }
+
+  private scheduleNext(delayMs: number): void {
+    if (!this.isScanning) return;
+    this.timerId = setTimeout(() => this.scanFrame(), delayMs);
+  }
+
+  private scanFrame(): void {
+    this.timerId = null;
+    if (!this.isScanning) return;
+    const interval = this.options.scanInterval ?? DEFAULT_SCAN_INTERVAL_MS;
+    const video = this.options.videoElement;
+    // Wait until the stream delivers frames (HAVE_CURRENT_DATA)
+    if (video.readyState < 2 || video.videoWidth === 0 || video.videoHeight === 0) {
+      this.scheduleNext(interval);
+      return;
+    }
+
+    const decodeStart = performance.now();
+    try {
+      const detection = this.decodeFrame(video);
+      this.recordAttempt(decodeStart, detection !== null);
+      if (detection) {
+        this.log(LogLevel.INFO, 'FrameScanner: QR Code detected!', detection.data);
+        this.options.onDetection?.(detection);
+        this.options.onScanSuccess(detection.data);
+        if (this.options.stopOnScan ?? true) {
+          this.stop();
+          return;
+        }
+      }
+    } catch (error) {
+      this.stats.errors += 1;
+      this.log(LogLevel.ERROR, `FrameScanner: Error in scan loop: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.scheduleNext(interval);
+  }
+
+  private recordAttempt(decodeStart: number, decoded: boolean): void {
+    const now = performance.now();
+    const elapsed = now - decodeStart;
+    this.stats.attempts += 1;
+    this.stats.totalDecodeMs += elapsed;
+    this.stats.maxDecodeMs = Math.max(this.stats.maxDecodeMs, elapsed);
+    if (decoded) {
+      this.stats.decodes += 1;
+      if (this.stats.firstDecodeAt === null) this.stats.firstDecodeAt = now;
+    }
+  }
+
+  // Draws the region of interest (or the full frame) and decodes it
+  private decodeFrame(video: HTMLVideoElement): Detection | null {
+    const { videoWidth, videoHeight } = video;
+    const roi = this.options.regionOfInterest;
+    const rect = roi && video.clientWidth > 0 && video.clientHeight > 0
+      ? roiToVideoRect(roi, videoWidth, videoHeight, video.clientWidth, video.clientHeight)
+      : { x: 0, y: 0, width: videoWidth, height: videoHeight };
+    if (rect.width === 0 || rect.height === 0) return null;
+
+    if (this.canvasElement.width !== rect.width || this.canvasElement.height !== rect.height) {
+      this.canvasElement.width = rect.width;
+      this.canvasElement.height = rect.height;
+    }
+    this.canvasContext.drawImage(video, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    const imageData = this.canvasContext.getImageData(0, 0, rect.width, rect.height);
+    const code = jsQR(imageData.data, imageData.width, imageData.height, { inversionAttempts: 'dontInvert' });
+    if (!code || code.data.trim().length === 0) return null;
+
+    // Shift corners from crop coordinates back into full-frame video coordinates
+    const corners = cornersOf(code).map(p => ({ x: p.x + rect.x, y: p.y + rect.y })) as Detection['corners'];
+    return { data: code.data, corners, videoWidth, videoHeight, timestamp: Date.now() };
+  }
+
+  private log(level: LogLevel, message: string, data?: unknown): void {
+    this.options.logger?.('Client', level, 'FrameScanner', message, data);
+  }
+}
+
+export default FrameScanner;
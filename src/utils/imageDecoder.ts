@@ -0,0 +1,95 @@
+import jsQR, { QRCode } from 'jsqr';
+
+/** A point in image pixel coordinates. */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** A code found in a still image. */
+export interface DecodedCode {
+  data: string;
+  /** Corner polygon (top-left, top-right, bottom-right, bottom-left) in image coordinates. */
+  corners: [Point, Point, Point, Point];
+}
+
+// Larger images are downscaled before decoding (jsQR cost grows with pixel count)
+const MAX_DECODE_DIMENSION = 2000;
+// Safety cap for the find-and-blank loop
+const MAX_CODES_PER_IMAGE = 20;
+
+export const cornersOf = (code: QRCode): DecodedCode['corners'] => [
+  code.location.topLeftCorner,
+  code.location.topRightCorner,
+  code.location.bottomRightCorner,
+  code.location.bottomLeftCorner,
+];
+
+/**
+ * Finds every QR code in a canvas. jsQR only reports one code per call, so each
+ * found code is painted over (with some margin for the quiet zone) and the
+ * image is decoded again until nothing more is found.
+ * Note: modifies the canvas content.
+ */
+export function decodeAllFromCanvas(canvas: HTMLCanvasElement, maxCodes: number = MAX_CODES_PER_IMAGE): DecodedCode[] {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create a 2D canvas context.');
+  }
+  const found: DecodedCode[] = [];
+  for (let i = 0; i < maxCodes; i++) {
+    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+    const code = jsQR(imageData.data, imageData.width, imageData.height, { inversionAttempts: 'attemptBoth' });
+    if (!code) break;
+    const corners = cornersOf(code);
+    if (code.data.trim().length > 0) {
+      found.push({ data: code.data, corners });
+    }
+
+    // Blank the code, enlarged by 20% around its center
+    const cx = corners.reduce((sum, p) => sum + p.x, 0) / 4;
+    const cy = corners.reduce((sum, p) => sum + p.y, 0) / 4;
+    context.fillStyle = '#ffffff';
+    context.beginPath();
+    corners.forEach((p, idx) => {
+      const x = cx + (p.x - cx) * 1.2;
+      const y = cy + (p.y - cy) * 1.2;
+      if (idx === 0) context.moveTo(x, y);
+      else context.lineTo(x, y);
+    });
+    context.closePath();
+    context.fill();
+  }
+  return found;
+}
+
+/**
+ * Decodes all QR codes in an image file or blob (PNG, JPEG, WebP, ...).
+ * Corner coordinates are reported in the original image's pixel space.
+ */
+export async function decodeImageBlob(blob: Blob): Promise<DecodedCode[]> {
+  if (!blob.type.startsWith('image/')) {
+    throw new Error(`Unsupported file type: ${blob.type || 'unknown'}`);
+  }
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('Could not create a 2D canvas context.');
+    }
+    // White background so transparent PNGs decode like printed codes
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return decodeAllFromCanvas(canvas).map(code => ({
+      data: code.data,
+      corners: code.corners.map(p => ({ x: p.x / scale, y: p.y / scale })) as DecodedCode['corners'],
+    }));
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { InventoryLine, removeSubmittedLines } from './inventory';
+
+const line = (code: string, quantity: number): InventoryLine => ({ code, quantity, firstScannedAt: 1, lastScannedAt: 2 });
+
+describe('removeSubmittedLines', () => {
+  it('keeps only what was counted after the submitted snapshot', () => {
+    const submitted = [line('A', 2), line('B', 1)];
+    const current = [line('C', 1), line('A', 3), line('B', 1)];
+    expect(removeSubmittedLines(current, submitted)).toEqual([line('C', 1), line('A', 1)]);
+  });
+});
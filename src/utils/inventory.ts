@@ -0,0 +1,101 @@
+import { getClientId } from './remoteLog';
+import { enqueueOutbox } from './outbox';
+
+/** One counted article in an inventory session. */
+export interface InventoryLine {
+  /** The decoded code (used as the line key). */
+  code: string;
+  quantity: number;
+  firstScannedAt: number;
+  lastScannedAt: number;
+}
+
+/** An inventory counting session as submitted to the backend. */
+export interface InventorySession {
+  sessionId: string;
+  clientId: string;
+  startedAt: string;
+  submittedAt: string;
+  lines: Array<Omit<InventoryLine, 'firstScannedAt' | 'lastScannedAt'> & { firstScannedAt: string; lastScannedAt: string }>;
+}
+
+// Default submission target; the dev server provides a local /sessions route
+export const DEFAULT_SESSION_ENDPOINT: string = import.meta.env.VITE_SESSION_ENDPOINT || '/sessions';
+
+export const createSessionId = (): string =>
+  `session_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * Returns a new line list with `code` added (quantity 1) or its quantity incremented.
+ * Newly added codes go to the top of the list.
+ */
+export function addOrIncrementLine(lines: InventoryLine[], code: string, timestamp: number = Date.now()): InventoryLine[] {
+  const existing = lines.find(l => l.code === code);
+  if (existing) {
+    return lines.map(l => (l === existing ? { ...l, quantity: l.quantity + 1, lastScannedAt: timestamp } : l));
+  }
+  return [{ code, quantity: 1, firstScannedAt: timestamp, lastScannedAt: timestamp }, ...lines];
+}
+
+/**
+ * Lines left after `submitted` went out: quantities counted while the submission was in flight
+ * (new codes or further scans of submitted ones) stay for the next session.
+ */
+export function removeSubmittedLines(lines: InventoryLine[], submitted: InventoryLine[]): InventoryLine[] {
+  const submittedQuantities = new Map(submitted.map(l => [l.code, l.quantity]));
+  return lines
+    .map(l => ({ ...l, quantity: l.quantity - (submittedQuantities.get(l.code) ?? 0) }))
+    .filter(l => l.quantity > 0);
+}
+
+/**
+ * Builds the JSON document for a session.
+ */
+export function buildSessionDocument(sessionId: string, startedAt: number, lines: InventoryLine[]): InventorySession {
+  return {
+    sessionId,
+    clientId: getClientId(),
+    startedAt: new Date(startedAt).toISOString(),
+    submittedAt: new Date().toISOString(),
+    lines: lines.map(l => ({
+      code: l.code,
+      quantity: l.quantity,
+      firstScannedAt: new Date(l.firstScannedAt).toISOString(),
+      lastScannedAt: new Date(l.lastScannedAt).toISOString(),
+    })),
+  };
+}
+
+/**
+ * POSTs a session document to the given endpoint.
+ * Without connectivity the document is stored in the outbox and delivered later.
+ * @returns 'sent' if the server accepted it, 'queued' if it went to the outbox.
+ * @throws If the server answers with a non-2xx status.
+ */
+export async function submitInventorySession(
+  session: InventorySession,
+  endpoint: string = DEFAULT_SESSION_ENDPOINT
+): Promise<'sent' | 'queued'> {
+  const body = JSON.stringify(session);
+  const queue = async () => {
+    await enqueueOutbox({ kind: 'session', url: endpoint, body, contentType: 'application/json' });
+    return 'queued' as const;
+  };
+  if (!navigator.onLine) return queue();
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+  } catch {
+    // Network failure (fetch rejects with TypeError): keep the submission
+    return queue();
+  }
+  if (!response.ok) {
+    throw new Error(`Server responded with ${response.status} ${response.statusText}`);
+  }
+  return 'sent';
+}
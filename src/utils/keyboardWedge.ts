@@ -0,0 +1,133 @@
+// Keyboard-wedge (USB/Bluetooth HID) barcode scanners "type" the code very fast,
+// usually followed by Enter. This module tells those bursts apart from human typing.
+
+export type WedgeTerminator = 'Enter' | 'Tab' | 'none';
+
+export interface KeyboardWedgeSettings {
+  enabled: boolean;
+  /** Max. milliseconds between two keys of one burst; humans are far slower. */
+  maxInterKeyMs: number;
+  /** Shorter bursts are ignored. */
+  minLength: number;
+  /** If set, a burst must start with this text (removed from the code). */
+  prefix: string;
+  /** If set, a burst must end with this text (removed from the code). */
+  suffix: string;
+  /** Key that ends a burst; 'none' ends it after `maxInterKeyMs` without input. */
+  terminator: WedgeTerminator;
+}
+
+export const DEFAULT_KEYBOARD_WEDGE_SETTINGS: KeyboardWedgeSettings = {
+  enabled: true,
+  maxInterKeyMs: 50,
+  minLength: 4,
+  prefix: '',
+  suffix: '',
+  terminator: 'Enter',
+};
+
+/** Keystroke as far as the decoder is concerned. */
+export interface WedgeKey {
+  key: string;
+  timestamp: number;
+}
+
+/**
+ * Stateful burst decoder. Feed it every key; it returns the code when a burst completes.
+ */
+export function createWedgeDecoder(settings: KeyboardWedgeSettings) {
+  let buffer = '';
+  let lastTimestamp = 0;
+
+  const reset = () => {
+    buffer = '';
+  };
+
+  // Validates the buffered burst and strips prefix/suffix; null if it doesn't qualify
+  const complete = (): string | null => {
+    let code = buffer;
+    reset();
+    if (settings.prefix) {
+      if (!code.startsWith(settings.prefix)) return null;
+      code = code.substring(settings.prefix.length);
+    }
+    if (settings.suffix) {
+      if (!code.endsWith(settings.suffix)) return null;
+      code = code.substring(0, code.length - settings.suffix.length);
+    }
+    return code.length >= settings.minLength ? code : null;
+  };
+
+  return {
+    /**
+     * @returns The decoded code when `key` completes a burst, otherwise null.
+     */
+    handleKey({ key, timestamp }: WedgeKey): string | null {
+      const gap = timestamp - lastTimestamp;
+      lastTimestamp = timestamp;
+      if (buffer && gap > settings.maxInterKeyMs) {
+        // Too slow for a scanner: the previous keys were typed by hand
+        reset();
+      }
+      if (key === settings.terminator) {
+        return buffer ? complete() : null;
+      }
+      if (key.length === 1) {
+        buffer += key;
+      } else if (key !== 'Shift') {
+        // Other special keys (arrows, Backspace, ...) never occur within a scan
+        reset();
+      }
+      return null;
+    },
+    /**
+     * Completes a pending burst once no key arrived for `maxInterKeyMs` (terminator 'none').
+     */
+    flush(timestamp: number): string | null {
+      if (!buffer || settings.terminator !== 'none' || timestamp - lastTimestamp < settings.maxInterKeyMs) return null;
+      return complete();
+    },
+    reset,
+  };
+}
+
+// Helper: Keys typed into form fields belong to the user
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Listens for scanner bursts on `window` (ignoring keys typed into form fields).
+ * @returns A function that removes the listener.
+ */
+export function listenForKeyboardWedge(settings: KeyboardWedgeSettings, onCode: (code: string) => void): () => void {
+  const decoder = createWedgeDecoder(settings);
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) {
+      decoder.reset();
+      return;
+    }
+    const code = decoder.handleKey({ key: event.key, timestamp: event.timeStamp });
+    if (code !== null) {
+      // Keep the terminator from activating a focused button
+      event.preventDefault();
+      onCode(code);
+    }
+    if (settings.terminator === 'none') {
+      if (flushTimer !== null) clearTimeout(flushTimer);
+      flushTimer = setTimeout(() => {
+        const flushed = decoder.flush(performance.now());
+        if (flushed !== null) onCode(flushed);
+      }, settings.maxInterKeyMs + 1);
+    }
+  };
+
+  window.addEventListener('keydown', handleKeyDown, true);
+  return () => {
+    window.removeEventListener('keydown', handleKeyDown, true);
+    if (flushTimer !== null) clearTimeout(flushTimer);
+  };
+}
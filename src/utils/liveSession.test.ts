@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INITIAL_LIVE_SESSION_STATE,
+  LiveSessionEntry,
+  buildJoinUrl,
+  liveSessionReducer,
+  normalizeSessionCode,
+  parseJoinCode,
+} from './liveSession';
+
+const entry = (value: string, lastScannedAt: number): LiveSessionEntry => ({
+  value,
+  firstScannedAt: lastScannedAt,
+  lastScannedAt,
+  scannedBy: [{ clientId: 'client_a', name: 'Alice', count: 1, lastScannedAt }],
+});
+
+const location = new URL('https://192.168.1.20:5173/?debug=1') as unknown as Location;
+
+describe('liveSessionReducer', () => {
+  const joined = liveSessionReducer(INITIAL_LIVE_SESSION_STATE, {
+    type: 'joined',
+    code: 'ABC234',
+    participants: [{ clientId: 'client_a', name: 'Alice' }],
+    entries: [entry('old', 1), entry('new', 2)],
+  });
+
+  it('keeps the merged entries newest first', () => {
+    expect(joined.status).toBe('joined');
+    expect(joined.entries.map(e => e.value)).toEqual(['new', 'old']);
+    const updated = liveSessionReducer(joined, { type: 'entry', entry: entry('old', 3) });
+    expect(updated.entries.map(e => e.value)).toEqual(['old', 'new']);
+  });
+
+  it('keeps the list while reconnecting and resets on an unknown code', () => {
+    const reconnecting = liveSessionReducer(joined, { type: 'disconnected' });
+    expect(reconnecting).toMatchObject({ status: 'reconnecting', code: 'ABC234' });
+    expect(reconnecting.entries).toHaveLength(2);
+    expect(liveSessionReducer(reconnecting, { type: 'error', reason: 'not-found' }))
+      .toEqual({ ...INITIAL_LIVE_SESSION_STATE, error: 'not-found' });
+    expect(liveSessionReducer(joined, { type: 'error', reason: 'session-full' })).toMatchObject({ status: 'joined', error: 'session-full' });
+  });
+});
+
+describe('join links', () => {
+  it('round-trips the code through the join URL', () => {
+    const link = buildJoinUrl('ABC234', location);
+    expect(link).toBe('https://192.168.1.20:5173/?live=ABC234');
+    expect(parseJoinCode(link, location.origin)).toBe('ABC234');
+  });
+
+  it('ignores other origins and malformed codes', () => {
+    expect(parseJoinCode('https://example.com/?live=ABC234', location.origin)).toBeNull();
+    expect(parseJoinCode('https://192.168.1.20:5173/?live=ABC10', location.origin)).toBeNull();
+    expect(parseJoinCode('ABC234', location.origin)).toBeNull();
+    expect(normalizeSessionCode(' abc234 ')).toBe('ABC234');
+    expect(normalizeSessionCode('ABC-23')).toBeNull();
+  });
+});
@@ -0,0 +1,232 @@
+// Client side of the live scan sessions hosted by the dev server (server/liveSessions.ts):
+// the session state reducer, join links and a reconnecting WebSocket connection.
+// The message types are shared with the hub (server/liveSessionProtocol.ts).
+import type {
+  LiveClientMessage,
+  LiveParticipant,
+  LiveServerMessage,
+  LiveSessionEntry,
+  LiveSessionErrorReason,
+} from '../../server/liveSessionProtocol';
+
+export type { LiveParticipant, LiveServerMessage, LiveSessionEntry, LiveSessionErrorReason };
+
+/** Server messages plus the connection's own events. */
+export type LiveSessionAction =
+  | LiveServerMessage
+  | { type: 'connecting'; code: string | null }
+  | { type: 'disconnected' };
+
+export type LiveSessionStatus = 'idle' | 'connecting' | 'joined' | 'reconnecting';
+
+export interface LiveSessionState {
+  status: LiveSessionStatus;
+  /** Code of the joined (or rejoining) session. */
+  code: string | null;
+  participants: LiveParticipant[];
+  /** Most recently scanned first. */
+  entries: LiveSessionEntry[];
+  error: LiveSessionErrorReason | null;
+}
+
+export const INITIAL_LIVE_SESSION_STATE: LiveSessionState = {
+  status: 'idle',
+  code: null,
+  participants: [],
+  entries: [],
+  error: null,
+};
+
+/** WebSocket path of the hub on the dev server. */
+export const LIVE_SESSION_PATH = '/live-session';
+
+/** Query parameter of join links (`?live=<code>`). */
+const JOIN_PARAM = 'live';
+
+const CODE_PATTERN = /^[A-Z2-9]{6}$/;
+
+const byLastScan = (a: LiveSessionEntry, b: LiveSessionEntry) => b.lastScannedAt - a.lastScannedAt;
+
+export function liveSessionReducer(state: LiveSessionState, action: LiveSessionAction): LiveSessionState {
+  switch (action.type) {
+    case 'connecting':
+      return { ...state, status: 'connecting', code: action.code, error: null };
+    case 'disconnected':
+      // Joined sessions are rejoined on reconnect; the merged list stays visible meanwhile
+      return state.status === 'joined' ? { ...state, status: 'reconnecting' } : state;
+    case 'joined':
+      return {
+        status: 'joined',
+        code: action.code,
+        participants: action.participants,
+        entries: [...action.entries].sort(byLastScan),
+        error: null,
+      };
+    case 'participants':
+      return { ...state, participants: action.participants };
+    case 'entry':
+      return { ...state, entries: [action.entry, ...state.entries.filter(e => e.value !== action.entry.value)] };
+    case 'left':
+      return INITIAL_LIVE_SESSION_STATE;
+    case 'error':
+      // An unknown code ends the join attempt; other errors leave the session as it is
+      return action.reason === 'not-found'
+        ? { ...INITIAL_LIVE_SESSION_STATE, error: action.reason }
+        : { ...state, error: action.reason };
+  }
+}
+
+/** WebSocket URL of the hub on the server that served the page. */
+export function liveSessionSocketUrl(location: Location = window.location): string {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${LIVE_SESSION_PATH}`;
+}
+
+/** Link encoded in the session QR code: opens the app and joins the session. */
+export function buildJoinUrl(code: string, location: Location = window.location): string {
+  const url = new URL(location.pathname, location.origin);
+  url.searchParams.set(JOIN_PARAM, code);
+  return url.toString();
+}
+
+/**
+ * Session code from a join link of this app (scanned or opened), or null for anything else.
+ */
+export function parseJoinCode(text: string, origin: string = window.location.origin): string | null {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  const code = url.searchParams.get(JOIN_PARAM)?.toUpperCase() ?? '';
+  return url.origin === origin && CODE_PATTERN.test(code) ? code : null;
+}
+
+export const normalizeSessionCode = (code: string): string | null => {
+  const normalized = code.trim().toUpperCase();
+  return CODE_PATTERN.test(normalized) ? normalized : null;
+};
+
+export interface LiveSessionConnectionOptions {
+  url: string;
+  clientId: string;
+  onAction: (action: LiveSessionAction) => void;
+}
+
+// Reconnect delays grow up to this
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * WebSocket connection to the hub. Opens on create()/join(), reconnects with backoff and
+ * rejoins the session until leave()/close(); scans made while reconnecting are sent after rejoining.
+ */
+export class LiveSessionConnection {
+  private readonly options: LiveSessionConnectionOptions;
+  private socket: WebSocket | null = null;
+  // What to (re)send once connected: create a session or join one
+  private intent: { type: 'create'; name: string } | { type: 'join'; code: string; name: string } | null = null;
+  private joined = false;
+  private pendingScans: string[] = [];
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: LiveSessionConnectionOptions) {
+    this.options = options;
+  }
+
+  create(name: string): void {
+    this.start({ type: 'create', name }, null);
+  }
+
+  join(code: string, name: string): void {
+    this.start({ type: 'join', code, name }, code);
+  }
+
+  /** Shares an accepted scan with the session (queued while reconnecting). */
+  sendScan(value: string): void {
+    if (!this.intent) return;
+    if (this.joined) {
+      this.send({ type: 'scan', value });
+    } else {
+      this.pendingScans.push(value);
+    }
+  }
+
+  leave(): void {
+    if (this.joined) this.send({ type: 'leave' });
+    this.close();
+    this.options.onAction({ type: 'left' });
+  }
+
+  /** Closes the connection without leaving the session state (e.g. on unmount). */
+  close(): void {
+    this.intent = null;
+    this.joined = false;
+    this.pendingScans = [];
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private start(intent: NonNullable<LiveSessionConnection['intent']>, code: string | null) {
+    this.intent = intent;
+    this.joined = false;
+    this.options.onAction({ type: 'connecting', code });
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.sendIntent();
+    } else if (!this.socket) {
+      this.connect();
+    }
+  }
+
+  private connect() {
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+    socket.addEventListener('open', () => {
+      this.reconnectAttempts = 0;
+      this.sendIntent();
+    });
+    socket.addEventListener('message', event => {
+      let message: LiveServerMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message.type === 'joined') {
+        this.joined = true;
+        // Reconnects rejoin the same session instead of creating another one
+        if (this.intent) this.intent = { type: 'join', code: message.code, name: this.intent.name };
+        this.pendingScans.splice(0).forEach(value => this.send({ type: 'scan', value }));
+      }
+      if (message.type === 'error' && message.reason === 'not-found') this.close();
+      this.options.onAction(message);
+    });
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.joined = false;
+      if (!this.intent) return;
+      this.options.onAction({ type: 'disconnected' });
+      const delay = Math.min(1000 * 2 ** this.reconnectAttempts++, MAX_RECONNECT_DELAY_MS);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.intent) this.connect();
+      }, delay);
+    });
+  }
+
+  private sendIntent() {
+    const intent = this.intent;
+    if (!intent) return;
+    this.send(intent.type === 'create'
+      ? { type: 'create', clientId: this.options.clientId, name: intent.name }
+      : { type: 'join', code: intent.code, clientId: this.options.clientId, name: intent.name });
+  }
+
+  private send(message: LiveClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_REMOTE_LOG_CONFIG, admitForTransmission, configureRemoteLog } from './logConfig';
+
+afterEach(() => {
+  configureRemoteLog(DEFAULT_REMOTE_LOG_CONFIG);
+});
+
+describe('admitForTransmission', () => {
+  it('matches global regexes the same way on every entry', () => {
+    configureRemoteLog({ sampling: [{ message: /detected/g, rate: 0 }], rateLimit: { maxPerWindow: 0, windowMs: 1000 } });
+    const admitted = [1, 2, 3, 4].map(() => admitForTransmission('Client', 'FrameScanner', 'QR Code detected'));
+    expect(admitted).toEqual([null, null, null, null]);
+  });
+
+  it('reports suppressed repeats once the next window admits the message', () => {
+    configureRemoteLog({ rateLimit: { maxPerWindow: 1, windowMs: 1000 } });
+    expect(admitForTransmission('Client', 'Test', 'repeat', 0)).toBe(0);
+    expect(admitForTransmission('Client', 'Test', 'repeat', 10)).toBeNull();
+    expect(admitForTransmission('Client', 'Test', 'repeat', 20)).toBeNull();
+    // Other messages sweep expired windows, but not those with suppressed repeats
+    expect(admitForTransmission('Client', 'Test', 'other', 5000)).toBe(0);
+    expect(admitForTransmission('Client', 'Test', 'repeat', 5001)).toBe(2);
+  });
+});
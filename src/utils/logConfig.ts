@@ -0,0 +1,237 @@
+// Configuration and filtering policy for the remote-log pipeline (see remoteLog.ts).
+import { LogLevel } from 'qr-scanner-library';
+
+/** Matches log entries by source, component and/or message. Omitted fields match everything. */
+export interface LogMatcher {
+  source?: string;
+  component?: string;
+  message?: RegExp;
+}
+
+/** Keep only a fraction (0..1) of the matching entries. */
+export interface SamplingRule extends LogMatcher {
+  rate: number;
+}
+
+/** Replace every match of `pattern` in message and data before transmission. */
+export interface RedactionRule extends LogMatcher {
+  pattern: RegExp;
+  replacement?: string;
+}
+
+export interface RemoteLogConfig {
+  /** Minimum level if no more specific entry in `levels` applies. */
+  minLevel: LogLevel;
+  /** Per-source ('Lib') or per-component ('Lib:ScannerService') minimum levels; the most specific wins. */
+  levels: Record<string, LogLevel>;
+  batching: {
+    /** Send as soon as this many entries are waiting. */
+    maxBatchSize: number;
+    /** Send waiting entries at the latest after this many milliseconds. */
+    flushIntervalMs: number;
+    /** Entries at or above this level trigger an immediate flush. */
+    flushImmediatelyAt: LogLevel;
+  };
+  rateLimit: {
+    /** Max. transmitted entries per identical source/component/message within `windowMs` (0 disables). */
+    maxPerWindow: number;
+    windowMs: number;
+  };
+  sampling: SamplingRule[];
+  redaction: {
+    /** Mask decoded payloads (registered via registerSensitiveValue and the scanners' detection logs). */
+    scanPayloads: boolean;
+    /** Mask camera labels (registered via registerSensitiveValue). */
+    deviceLabels: boolean;
+    rules: RedactionRule[];
+  };
+}
+
+export type SensitiveCategory = 'scanPayload' | 'deviceLabel';
+
+export const REDACTED = '[redacted]';
+
+// Severity order used for level thresholds
+const LEVEL_RANK: Record<LogLevel, number> = {
+  [LogLevel.DEBUG]: 0,
+  [LogLevel.INFO]: 1,
+  [LogLevel.WARN]: 2,
+  [LogLevel.ERROR]: 3,
+};
+
+export const DEFAULT_REMOTE_LOG_CONFIG: RemoteLogConfig = {
+  minLevel: LogLevel.INFO,
+  levels: {},
+  batching: {
+    maxBatchSize: 20,
+    flushIntervalMs: 2000,
+    flushImmediatelyAt: LogLevel.ERROR,
+  },
+  rateLimit: {
+    maxPerWindow: 10,
+    windowMs: 10000,
+  },
+  sampling: [],
+  redaction: {
+    scanPayloads: false,
+    deviceLabels: false,
+    rules: [],
+  },
+};
+
+let config: RemoteLogConfig = DEFAULT_REMOTE_LOG_CONFIG;
+
+export const getRemoteLogConfig = (): RemoteLogConfig => config;
+
+/**
+ * Merges the given settings into the active configuration (nested groups are merged one level deep).
+ */
+export function configureRemoteLog(overrides: Partial<RemoteLogConfig>): void {
+  config = {
+    ...config,
+    ...overrides,
+    levels: { ...config.levels, ...overrides.levels },
+    batching: { ...config.batching, ...overrides.batching },
+    rateLimit: { ...config.rateLimit, ...overrides.rateLimit },
+    redaction: { ...config.redaction, ...overrides.redaction },
+  };
+  rateWindows.clear();
+  lastSweep = 0;
+}
+
+export const compareLevels = (a: LogLevel, b: LogLevel): number => (LEVEL_RANK[a] ?? 1) - (LEVEL_RANK[b] ?? 1);
+
+function matches(matcher: LogMatcher, source: string, component: string, message: string): boolean {
+  if (matcher.source !== undefined && matcher.source !== source) return false;
+  if (matcher.component !== undefined && matcher.component !== component) return false;
+  if (matcher.message === undefined) return true;
+  // test() on g/y regexes continues from the previous match; every entry is matched from the start
+  matcher.message.lastIndex = 0;
+  return matcher.message.test(message);
+}
+
+/**
+ * Whether an entry passes the level threshold for its source/component.
+ */
+export function isLevelEnabled(level: LogLevel, source: string, component: string): boolean {
+  const threshold = config.levels[`${source}:${component}`] ?? config.levels[source] ?? config.minLevel;
+  return compareLevels(level, threshold) >= 0;
+}
+
+// Per-message counters for the current rate-limit window
+const rateWindows = new Map<string, { start: number; count: number; suppressed: number }>();
+let lastSweep = 0;
+
+// Bounded so messages with changing values (payloads, device IDs) don't grow the map indefinitely
+const MAX_RATE_WINDOWS = 500;
+
+// Drops expired windows; those with suppressed entries are kept (within the bound) to report the count
+function sweepRateWindows(now: number, windowMs: number): void {
+  if (now - lastSweep >= windowMs) {
+    lastSweep = now;
+    rateWindows.forEach((window, key) => {
+      if (now - window.start >= windowMs && window.suppressed === 0) rateWindows.delete(key);
+    });
+  }
+  while (rateWindows.size > MAX_RATE_WINDOWS) {
+    rateWindows.delete(rateWindows.keys().next().value as string);
+  }
+}
+
+/**
+ * Applies sampling and rate limiting.
+ * @returns null if the entry should not be transmitted, otherwise the number of
+ *          entries with the same key suppressed since the last transmitted one.
+ */
+export function admitForTransmission(source: string, component: string, message: string, now: number = Date.now()): number | null {
+  const sampling = config.sampling.find(rule => matches(rule, source, component, message));
+  if (sampling && Math.random() >= sampling.rate) return null;
+
+  const { maxPerWindow, windowMs } = config.rateLimit;
+  if (maxPerWindow <= 0) return 0;
+  sweepRateWindows(now, windowMs);
+  const key = `${source}\u0000${component}\u0000${message}`;
+  let window = rateWindows.get(key);
+  if (!window || now - window.start >= windowMs) {
+    window = { start: now, count: 0, suppressed: window?.suppressed ?? 0 };
+    // Re-inserted so the map stays ordered oldest window first (evicted first)
+    rateWindows.delete(key);
+    rateWindows.set(key, window);
+  }
+  if (window.count >= maxPerWindow) {
+    window.suppressed += 1;
+    return null;
+  }
+  window.count += 1;
+  const suppressed = window.suppressed;
+  window.suppressed = 0;
+  return suppressed;
+}
+
+const sensitiveValues: Record<SensitiveCategory, Set<string>> = {
+  scanPayload: new Set(),
+  deviceLabel: new Set(),
+};
+
+// Bounded so long scanning sessions don't grow the set indefinitely
+const MAX_SENSITIVE_VALUES = 500;
+
+/**
+ * Registers a value that must be masked in transmitted logs when its category's redaction is enabled.
+ */
+export function registerSensitiveValue(category: SensitiveCategory, value: string): void {
+  if (!value) return;
+  const values = sensitiveValues[category];
+  values.delete(value);
+  values.add(value);
+  if (values.size > MAX_SENSITIVE_VALUES) {
+    values.delete(values.values().next().value as string);
+  }
+}
+
+function maskValues(text: string, values: Set<string>): string {
+  let result = text;
+  values.forEach(value => {
+    result = result.split(value).join(REDACTED);
+    // Values also appear JSON-escaped inside stringified data
+    const escaped = JSON.stringify(value).slice(1, -1);
+    if (escaped !== value) result = result.split(escaped).join(REDACTED);
+  });
+  return result;
+}
+
+/**
+ * Masks sensitive content in an entry's message and stringified data according to the redaction settings.
+ */
+export function redactEntry(
+  source: string,
+  component: string,
+  message: string,
+  dataString: string
+): { message: string; dataString: string } {
+  const { redaction } = config;
+  let redactedMessage = message;
+  let redactedData = dataString;
+
+  // The scanners (library ScannerService and FrameScanner) report every detection with the decoded payload as data
+  if (redaction.scanPayloads && /QR Code detected/i.test(message) && redactedData) {
+    redactedData = ` "${REDACTED}"`;
+  }
+  const active: Set<string>[] = [];
+  if (redaction.scanPayloads) active.push(sensitiveValues.scanPayload);
+  if (redaction.deviceLabels) active.push(sensitiveValues.deviceLabel);
+  active.forEach(values => {
+    redactedMessage = maskValues(redactedMessage, values);
+    redactedData = maskValues(redactedData, values);
+  });
+
+  redaction.rules
+    .filter(rule => matches(rule, source, component, message))
+    .forEach(rule => {
+      const pattern = rule.pattern.global ? rule.pattern : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+      redactedMessage = redactedMessage.replace(pattern, rule.replacement ?? REDACTED);
+      redactedData = redactedData.replace(pattern, rule.replacement ?? REDACTED);
+    });
+
+  return { message: redactedMessage, dataString: redactedData };
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OUTBOX_REPLAY_HEADER, OutboxEntry, enqueueOutbox, flushOutbox, getPendingCount } from './outbox';
+
+// In-memory stand-in for the outbox object store (jsdom has no IndexedDB)
+const store = new Map<number, OutboxEntry>();
+let nextId = 1;
+
+vi.mock('./db', () => {
+  const objectStore = {
+    add: (value: OutboxEntry) => ({ result: store.set(nextId, { ...value, id: nextId++ }) }),
+    put: (value: OutboxEntry) => ({ result: store.set(value.id as number, value) }),
+    delete: (id: number) => ({ result: store.delete(id) }),
+    count: () => ({ result: store.size }),
+    openCursor: () => {
+      const [first] = [...store.keys()].sort((a, b) => a - b);
+      return { result: first === undefined ? null : { value: store.get(first) } };
+    },
+  };
+  const db = { transaction: () => ({ objectStore: () => objectStore }) };
+  return {
+    STORE_OUTBOX: 'outbox',
+    openDb: () => Promise.resolve(db),
+    requestToPromise: (request: { result: unknown }) => Promise.resolve(request.result),
+    transactionDone: () => Promise.resolve(),
+  };
+});
+
+// Behaves like public/sw.js with the network down: uploads are queued again and answered
+// with 202, replays are let through and fail
+const offlineFetch = vi.fn<typeof fetch>(async (url, init) => {
+  // Ends the replay loop this test guards against instead of hanging the run
+  if (offlineFetch.mock.calls.length > 5) throw new Error('replayed the same upload over and over');
+  if (new Headers(init?.headers).has(OUTBOX_REPLAY_HEADER)) throw new TypeError('Failed to fetch');
+  store.set(nextId, { kind: 'screenshot', url: String(url), body: '', contentType: 'image/png', createdAt: 0, attempts: 0, id: nextId++ });
+  return new Response(JSON.stringify({ status: 'queued' }), { status: 202 });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  store.clear();
+  offlineFetch.mockClear();
+  vi.stubGlobal('fetch', offlineFetch);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('flushOutbox', () => {
+  it('keeps an entry whose replay fails while the service worker is offline', async () => {
+    await enqueueOutbox({ kind: 'screenshot', url: '/upload-screenshot', body: new ArrayBuffer(4), contentType: 'image/png' });
+
+    await flushOutbox();
+
+    expect(offlineFetch).toHaveBeenCalledTimes(1);
+    expect([...store.values()]).toEqual([expect.objectContaining({ url: '/upload-screenshot', attempts: 1 })]);
+    expect(getPendingCount()).toBe(1);
+  });
+});
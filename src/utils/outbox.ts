@@ -0,0 +1,168 @@
+import { openDb, requestToPromise, transactionDone, STORE_OUTBOX } from './db';
+
+// NOTE: This module must not use remoteLog; remoteLog itself queues into the outbox.
+
+export type OutboxKind = 'log' | 'screenshot' | 'session';
+
+/** A queued HTTP POST waiting for connectivity. */
+export interface OutboxEntry {
+  id?: number;
+  kind: OutboxKind;
+  url: string;
+  /** Text for JSON posts; raw bytes for uploads queued by the service worker. */
+  body: string | ArrayBuffer;
+  contentType: string;
+  createdAt: number;
+  attempts: number;
+}
+
+type OutboxListener = (pendingCount: number) => void;
+
+// Marks replayed requests; public/sw.js lets them through instead of queueing them again
+export const OUTBOX_REPLAY_HEADER = 'X-Outbox-Replay';
+
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 60000;
+
+let pendingCount = 0;
+let attempts = 0; // Consecutive failed flush attempts (drives the backoff)
+let isFlushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+function setPendingCount(count: number): void {
+  pendingCount = count;
+  listeners.forEach(listener => listener(count));
+}
+
+/** Number of entries currently waiting in the outbox (as of the last read/write). */
+export const getPendingCount = (): number => pendingCount;
+
+/**
+ * Subscribes to pending-count changes. The listener is called immediately with the current count.
+ * @returns An unsubscribe function.
+ */
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  listener(pendingCount);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function countEntries(): Promise<number> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_OUTBOX, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_OUTBOX).count());
+}
+
+/**
+ * Queues a POST request for later delivery and triggers a flush attempt.
+ */
+export async function enqueueOutbox(entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'attempts'>): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+  tx.objectStore(STORE_OUTBOX).add({ ...entry, createdAt: Date.now(), attempts: 0 });
+  await transactionDone(tx);
+  setPendingCount(await countEntries());
+  scheduleFlush(0);
+}
+
+function scheduleFlush(delayMs: number): void {
+  if (retryTimer !== null) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushOutbox();
+  }, delayMs);
+}
+
+// Helper: Reads the oldest entry (lowest auto-increment id)
+async function peekOldest(): Promise<OutboxEntry | null> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_OUTBOX, 'readonly');
+  const cursor = await requestToPromise(tx.objectStore(STORE_OUTBOX).openCursor());
+  return cursor ? (cursor.value as OutboxEntry) : null;
+}
+
+async function removeEntry(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+  tx.objectStore(STORE_OUTBOX).delete(id);
+  await transactionDone(tx);
+}
+
+async function markAttempt(entry: OutboxEntry): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_OUTBOX, 'readwrite');
+  tx.objectStore(STORE_OUTBOX).put({ ...entry, attempts: entry.attempts + 1 });
+  await transactionDone(tx);
+}
+
+/**
+ * Replays queued entries strictly in insertion order. Stops at the first
+ * network/server failure and retries later with exponential backoff.
+ * Entries rejected with a 4xx status are dropped so they cannot block the queue.
+ */
+export async function flushOutbox(): Promise<void> {
+  if (isFlushing) return;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return; // 'online' event resumes
+  isFlushing = true;
+  try {
+    for (let entry = await peekOldest(); entry; entry = await peekOldest()) {
+      let response: Response;
+      try {
+        response = await fetch(entry.url, {
+          method: 'POST',
+          headers: { 'Content-Type': entry.contentType, [OUTBOX_REPLAY_HEADER]: '1' },
+          body: entry.body,
+        });
+      } catch (networkError) {
+        await markAttempt(entry);
+        throw networkError;
+      }
+      if (response.status >= 500) {
+        await markAttempt(entry);
+        throw new Error(`Server responded with ${response.status}`);
+      }
+      if (!response.ok) {
+        console.warn(`[Outbox] Dropping ${entry.kind} entry ${entry.id}: server responded with ${response.status}`);
+      }
+      await removeEntry(entry.id as number);
+      setPendingCount(Math.max(0, pendingCount - 1));
+    }
+    attempts = 0;
+    setPendingCount(0);
+  } catch (error) {
+    attempts += 1;
+    const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+    console.warn(`[Outbox] Flush failed, retrying in ${delay}ms:`, error);
+    scheduleFlush(delay);
+  } finally {
+    isFlushing = false;
+  }
+}
+
+/**
+ * Loads the pending count and wires connectivity events. Call once at startup.
+ */
+export function initOutbox(): void {
+  countEntries()
+    .then(count => {
+      setPendingCount(count);
+      if (count > 0) scheduleFlush(0);
+    })
+    .catch(error => console.error('[Outbox] Failed to read outbox:', error));
+
+  window.addEventListener('online', () => {
+    attempts = 0;
+    scheduleFlush(0);
+  });
+
+  // The service worker queues failed screenshot uploads into the same store
+  navigator.serviceWorker?.addEventListener('message', event => {
+    if (event.data?.type === 'outbox-updated') {
+      countEntries().then(setPendingCount).catch(() => undefined);
+      scheduleFlush(0);
+    }
+  });
+}
@@ -0,0 +1,64 @@
+import { Point } from './imageDecoder';
+
+/** Axis-aligned rectangle. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Region of interest as fractions (0..1) of the *visible* video area,
+ * i.e. of the element box after `object-fit: cover` cropping.
+ */
+export type RegionOfInterest = Rect;
+
+export const DEFAULT_REGION_OF_INTEREST: RegionOfInterest = { x: 0.25, y: 0.1, width: 0.5, height: 0.8 };
+
+/** Maps video pixels to element pixels for `object-fit: cover`. */
+export interface CoverTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Computes the cover transform: the video is scaled to fill the element and
+ * centered, so the overflowing part is cropped (offsets are <= 0).
+ */
+export function computeCoverTransform(videoWidth: number, videoHeight: number, elementWidth: number, elementHeight: number): CoverTransform {
+  const scale = Math.max(elementWidth / videoWidth, elementHeight / videoHeight);
+  return {
+    scale,
+    offsetX: (elementWidth - videoWidth * scale) / 2,
+    offsetY: (elementHeight - videoHeight * scale) / 2,
+  };
+}
+
+export function videoToElement(point: Point, t: CoverTransform): Point {
+  return { x: point.x * t.scale + t.offsetX, y: point.y * t.scale + t.offsetY };
+}
+
+/**
+ * Converts a region of interest to a rectangle in video pixel coordinates, clamped to the frame.
+ */
+export function roiToVideoRect(
+  roi: RegionOfInterest,
+  videoWidth: number,
+  videoHeight: number,
+  elementWidth: number,
+  elementHeight: number
+): Rect {
+  const t = computeCoverTransform(videoWidth, videoHeight, elementWidth, elementHeight);
+  const left = Math.max(0, (roi.x * elementWidth - t.offsetX) / t.scale);
+  const top = Math.max(0, (roi.y * elementHeight - t.offsetY) / t.scale);
+  const right = Math.min(videoWidth, ((roi.x + roi.width) * elementWidth - t.offsetX) / t.scale);
+  const bottom = Math.min(videoHeight, ((roi.y + roi.height) * elementHeight - t.offsetY) / t.scale);
+  return {
+    x: Math.floor(left),
+    y: Math.floor(top),
+    width: Math.max(0, Math.floor(right - left)),
+    height: Math.max(0, Math.floor(bottom - top)),
+  };
+}
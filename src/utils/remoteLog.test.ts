@@ -0,0 +1,136 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogLevel } from 'qr-scanner-library';
+import { DEFAULT_REMOTE_LOG_CONFIG } from './logConfig';
+import { enqueueOutbox } from './outbox';
+
+vi.mock('./outbox', () => ({
+  enqueueOutbox: vi.fn(() => Promise.resolve()),
+  getPendingCount: vi.fn(() => 0),
+}));
+
+type RemoteLogModule = typeof import('./remoteLog');
+let log: RemoteLogModule;
+
+const sendBeacon = vi.fn<(url: string, data: Blob) => boolean>();
+const fetchMock = vi.fn<typeof fetch>();
+
+function setNavigator(name: 'sendBeacon' | 'onLine', value: unknown) {
+  Object.defineProperty(navigator, name, { value, configurable: true });
+}
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) => new Promise<string>(resolve => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.readAsText(blob);
+});
+
+// Entries of the batch handed to sendBeacon
+async function beaconEntries(call = 0): Promise<Array<Record<string, string>>> {
+  const [url, blob] = sendBeacon.mock.calls[call];
+  expect(url).toBe('/log');
+  return JSON.parse(await readBlob(blob));
+}
+
+beforeAll(async () => {
+  // The client ID is read once at import time
+  sessionStorage.setItem('clientId', 'client_test');
+  log = await import('./remoteLog');
+});
+
+beforeEach(() => {
+  sendBeacon.mockReset().mockReturnValue(true);
+  fetchMock.mockReset().mockResolvedValue(new Response('{}'));
+  vi.mocked(enqueueOutbox).mockClear();
+  setNavigator('sendBeacon', sendBeacon);
+  setNavigator('onLine', true);
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  log.configureRemoteLog(DEFAULT_REMOTE_LOG_CONFIG);
+});
+
+afterEach(() => {
+  log.flushRemoteLog();
+  vi.unstubAllGlobals();
+});
+
+describe('remoteLog', () => {
+  it('formats the console line with client ID, level, source and component', () => {
+    log.remoteLog('Client', LogLevel.INFO, 'QRScanner', 'Camera started', { deviceId: 'rear' });
+
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringMatching(/^\[\d{4}-\d\d-\d\dT[\d:.]+Z - client_test - INFO\]: \[Client - QRScanner\] Camera started \{"deviceId":"rear"\}$/)
+    );
+  });
+
+  it('sends batched entries as a JSON array via sendBeacon', async () => {
+    log.remoteLog('Client', LogLevel.INFO, 'Test', 'first');
+    log.remoteLog('Lib', LogLevel.WARN, 'Test', 'second', [1, 2]);
+    expect(sendBeacon).not.toHaveBeenCalled();
+
+    log.flushRemoteLog();
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(await beaconEntries()).toEqual([
+      expect.objectContaining({ clientId: 'client_test', source: 'Client', level: 'INFO', component: 'Test', message: 'first', dataString: '' }),
+      expect.objectContaining({ source: 'Lib', level: 'WARN', message: 'second', dataString: ' [1,2]' }),
+    ]);
+  });
+
+  it('flushes errors immediately', () => {
+    log.remoteLog('Client', LogLevel.ERROR, 'Test', 'broken');
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces unserializable data instead of throwing', async () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => log.remoteLog('Client', LogLevel.ERROR, 'Test', 'circular', circular)).not.toThrow();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('circular [Unserializable data]'));
+    expect((await beaconEntries())[0].dataString).toBe(' [Unserializable data]');
+  });
+
+  it('drops entries below the configured level entirely', () => {
+    log.configureRemoteLog({ minLevel: LogLevel.WARN });
+    log.remoteLog('Client', LogLevel.INFO, 'Test', 'chatty');
+    log.flushRemoteLog();
+
+    expect(console.log).not.toHaveBeenCalled();
+    expect(sendBeacon).not.toHaveBeenCalled();
+  });
+
+  it('falls back to fetch when sendBeacon refuses the batch', () => {
+    sendBeacon.mockReturnValue(false);
+    log.remoteLog('Client', LogLevel.ERROR, 'Test', 'refused');
+
+    expect(fetchMock).toHaveBeenCalledWith('/log', expect.objectContaining({ method: 'POST', keepalive: true }));
+    const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(body).toEqual([expect.objectContaining({ message: 'refused' })]);
+  });
+
+  it('uses fetch when sendBeacon is unavailable', () => {
+    setNavigator('sendBeacon', undefined);
+    log.remoteLog('Client', LogLevel.ERROR, 'Test', 'no beacon');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues the batch in the outbox when fetch fails', async () => {
+    setNavigator('sendBeacon', undefined);
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    log.remoteLog('Client', LogLevel.ERROR, 'Test', 'network down');
+
+    await vi.waitFor(() => expect(enqueueOutbox).toHaveBeenCalledTimes(1));
+    expect(enqueueOutbox).toHaveBeenCalledWith(expect.objectContaining({ kind: 'log', url: '/log', contentType: 'application/json' }));
+  });
+
+  it('queues instead of sending while offline', () => {
+    setNavigator('onLine', false);
+    log.remoteLog('Client', LogLevel.ERROR, 'Test', 'offline');
+
+    expect(sendBeacon).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(enqueueOutbox).toHaveBeenCalledTimes(1);
+  });
+});
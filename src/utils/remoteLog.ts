@@ -1,6 +1,16 @@
 // Import LogLevel directly from the library package
 import { LogLevel } from 'qr-scanner-library';
+import { enqueueOutbox, getPendingCount } from './outbox';
+import {
+  getRemoteLogConfig,
+  isLevelEnabled,
+  admitForTransmission,
+  redactEntry,
+  compareLevels,
+} from './logConfig';
 export { LogLevel };
+export { configureRemoteLog, registerSensitiveValue } from './logConfig';
+export type { RemoteLogConfig } from './logConfig';
 
 // Session-based client ID generation
 export const getClientId = (): string => {
@@ -17,11 +27,28 @@ export const getClientId = (): string => {
 };
 const CLIENT_ID = getClientId();
 
+/** A single entry as transmitted to /log (sent in batches as a JSON array). */
+interface LogPayload {
+  clientId: string;
+  timestamp: string;
+  source: string;
+  level: string;
+  component: string;
+  message: string;
+  dataString: string;
+}
+
+// Entries waiting for the next batch flush
+let batch: LogPayload[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
 /**
- * Formats and sends a log message to the backend /log endpoint.
+ * Formats a log message, writes it to the local console and hands it to the remote pipeline.
  * Includes timestamp, client ID, source, level, and component in the formatted message.
- * Attempts to use navigator.sendBeacon for reliability on page unload, falling back to fetch.
- * Also logs formatted message to the local console.
+ * Entries below the configured level for their source/component are dropped entirely.
+ * Transmission is subject to sampling, rate limiting and redaction (see logConfig.ts);
+ * accepted entries are batched and sent to /log, preferring navigator.sendBeacon and
+ * falling back to fetch. While offline the batch goes to the outbox instead.
  *
  * @param source The source ('Client' or 'Lib').
  * @param level The log level (using LogLevel enum imported from library).
@@ -30,6 +57,8 @@ const CLIENT_ID = getClientId();
  * @param data Optional additional data (will be stringified).
  */
 export function remoteLog(source: string, level: LogLevel, component: string, message: string, data?: unknown): void {
+  if (!isLevelEnabled(level, source, component)) return;
+
   const timestamp = new Date().toISOString();
   let dataString = '';
   if (data !== undefined) {
@@ -41,11 +70,11 @@ export function remoteLog(source: string, level: LogLevel, component: string, me
       }
   }
 
-  // Format for local console and remote transmission
+  // Format for local console
   // Format: "[Timestamp - Client id - Level]: [Source - Component] Message OptionalDataString"
   const formattedMessage = `[${timestamp} - ${CLIENT_ID} - ${level}]: [${source} - ${component}] ${message}${dataString}`;
 
-  // Log locally first
+  // Log locally first (unredacted; it never leaves the device)
   switch (level) {
     case LogLevel.ERROR:
       console.error(formattedMessage);
@@ -64,19 +93,54 @@ export function remoteLog(source: string, level: LogLevel, component: string, me
 
   // Use try-catch for sending to prevent logging errors from crashing the app
   try {
-    // Send structured data to the server
-    const logPayload = {
-        clientId: CLIENT_ID,
-        source,
-        level: level.toString(), // Send level as string
-        component,
-        message,
-        dataString // Include the stringified data part
-    };
-    const logData = JSON.stringify(logPayload);
+    const suppressed = admitForTransmission(source, component, message);
+    if (suppressed === null) return;
+
+    const redacted = redactEntry(source, component, message, dataString);
+    batch.push({
+      clientId: CLIENT_ID,
+      timestamp,
+      source,
+      level: level.toString(), // Send level as string
+      component,
+      message: suppressed > 0 ? `${redacted.message} (+${suppressed} suppressed)` : redacted.message,
+      dataString: redacted.dataString, // Include the stringified data part
+    });
+
+    const { batching } = getRemoteLogConfig();
+    if (batch.length >= batching.maxBatchSize || compareLevels(level, batching.flushImmediatelyAt) >= 0) {
+      flushRemoteLog();
+    } else if (flushTimer === null) {
+      flushTimer = setTimeout(flushRemoteLog, batching.flushIntervalMs);
+    }
+  } catch (error) {
+    console.error('[Remote Log] Error preparing or sending log:', error);
+  }
+}
+
+/**
+ * Sends all batched entries now. Called by the batch timer, on size/level
+ * thresholds and when the page is hidden or unloaded.
+ */
+export function flushRemoteLog(): void {
+  if (flushTimer !== null) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (batch.length === 0) return;
+  const logData = JSON.stringify(batch);
+  batch = [];
+
+  try {
+    // Keep ordering: queue while offline or while the outbox still holds older entries
+    if (!navigator.onLine || getPendingCount() > 0) {
+      queueLog(logData);
+      return;
+    }
+
     const blob = new Blob([logData], { type: 'application/json' });
 
-    // Prefer sendBeacon for reliability
+    // Prefer sendBeacon for reliability (it also survives page unload)
     if (navigator.sendBeacon) {
       const success = navigator.sendBeacon('/log', blob);
       if (!success) {
@@ -87,10 +151,18 @@ export function remoteLog(source: string, level: LogLevel, component: string, me
       sendWithFetch(logData); // Fallback if sendBeacon isn't supported
     }
   } catch (error) {
-    console.error('[Remote Log] Error preparing or sending log:', error);
+    console.error('[Remote Log] Error sending log batch:', error);
   }
 }
 
+// Flush pending entries before the page goes away (pagehide also covers bfcache)
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', flushRemoteLog);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushRemoteLog();
+  });
+}
+
 // Helper: Fetch fallback for remote logging
 function sendWithFetch(logData: string): void {
   fetch('/log', {
@@ -101,6 +173,14 @@ function sendWithFetch(logData: string): void {
     body: logData,
     keepalive: true // Attempt to keep request alive on page unload
   }).catch(error => {
-    console.error('[Remote Log] Fetch fallback failed:', error); // Keep console for this network error
+    console.error('[Remote Log] Fetch fallback failed, queueing in outbox:', error); // Keep console for this network error
+    queueLog(logData);
+  });
+}
+
+// Helper: Stores a log batch in the offline outbox for later replay
+function queueLog(logData: string): void {
+  enqueueOutbox({ kind: 'log', url: '/log', body: logData, contentType: 'application/json' }).catch(error => {
+    console.error('[Remote Log] Failed to queue log entry:', error);
   });
-}
\ No newline at end of file
+}
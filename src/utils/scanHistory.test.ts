@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ScanRecord, scansToCsv } from './scanHistory';
+
+const scan = (value: string): ScanRecord => ({ id: 1, value, timestamp: Date.UTC(2024, 0, 1), deviceId: 'rear', source: 'camera' });
+
+describe('scansToCsv', () => {
+  it('quotes separators and quotes', () => {
+    expect(scansToCsv([scan('a,"b"')]).split('\r\n')[1]).toBe('1,2024-01-01T00:00:00.000Z,camera,rear,"a,""b"""');
+  });
+
+  it('neutralizes values a spreadsheet would run as formulas', () => {
+    const rows = ['=HYPERLINK("http://x","y")', '+cmd|calc', '-1+1', '@SUM(A1)', '\tTAB'].map(value => scansToCsv([scan(value)]).split('\r\n')[1]);
+    expect(rows.map(row => row.substring(row.indexOf('rear,') + 5))).toEqual([
+      '"\'=HYPERLINK(""http://x"",""y"")"',
+      "'+cmd|calc",
+      "'-1+1",
+      "'@SUM(A1)",
+      "'\tTAB",
+    ]);
+  });
+});
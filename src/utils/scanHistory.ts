@@ -0,0 +1,102 @@
+import { openDb, requestToPromise, transactionDone, STORE_SCANS } from './db';
+
+/** Input path that produced a result ('hid' = keyboard-wedge handheld scanner). */
+export type ScanSource = 'camera' | 'image' | 'hid';
+
+/** A single decoded result as stored in the scan history. */
+export interface ScanRecord {
+  /** Auto-incremented primary key (assigned by IndexedDB). */
+  id?: number;
+  /** The decoded payload. */
+  value: string;
+  /** deviceId of the camera that produced the result ('' for the default device or non-camera sources). */
+  deviceId: string;
+  /** Input path; records stored before this field existed are camera scans. */
+  source?: ScanSource;
+  /** Epoch milliseconds of the decode. */
+  timestamp: number;
+}
+
+// Same value within this window is treated as a duplicate and not recorded again
+export const DEFAULT_SCAN_COOLDOWN_MS = 3000;
+
+/**
+ * Persists a scan record.
+ * @param record The record without id.
+ * @returns The stored record including its generated id.
+ */
+export async function addScan(record: Omit<ScanRecord, 'id'>): Promise<ScanRecord> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SCANS, 'readwrite');
+  const id = await requestToPromise(tx.objectStore(STORE_SCANS).add(record));
+  await transactionDone(tx);
+  return { ...record, id: id as number };
+}
+
+/**
+ * Loads all stored scans, newest first.
+ */
+export async function listScans(): Promise<ScanRecord[]> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SCANS, 'readonly');
+  const records = await requestToPromise(tx.objectStore(STORE_SCANS).index('timestamp').getAll());
+  return (records as ScanRecord[]).reverse();
+}
+
+export async function deleteScan(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SCANS, 'readwrite');
+  tx.objectStore(STORE_SCANS).delete(id);
+  await transactionDone(tx);
+}
+
+export async function clearScans(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_SCANS, 'readwrite');
+  tx.objectStore(STORE_SCANS).clear();
+  await transactionDone(tx);
+}
+
+/**
+ * Creates a stateful duplicate filter. The returned function answers whether a
+ * value should be recorded, i.e. it was not seen within the last `cooldownMs`.
+ * @param cooldownMs Window in milliseconds during which repeats are ignored (0 disables).
+ */
+export function createDeduplicator(cooldownMs: number): (value: string, timestamp?: number) => boolean {
+  if (cooldownMs <= 0) return () => true;
+  // Oldest first (re-inserted on every sighting), so expired entries are pruned from the front
+  const lastSeen = new Map<string, number>();
+  return (value, timestamp = Date.now()) => {
+    for (const [seenValue, seenAt] of lastSeen) {
+      if (timestamp - seenAt < cooldownMs) break;
+      lastSeen.delete(seenValue);
+    }
+    const previous = lastSeen.get(value);
+    lastSeen.delete(value);
+    lastSeen.set(value, timestamp);
+    return previous === undefined || timestamp - previous >= cooldownMs;
+  };
+}
+
+// Helper: Quotes a CSV field when needed (RFC 4180). Scanned values are untrusted, so values a
+// spreadsheet would evaluate as a formula get a leading apostrophe (CSV injection)
+function csvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function scansToCsv(records: ScanRecord[]): string {
+  const header = 'id,timestamp,source,deviceId,value';
+  const rows = records.map(r =>
+    [String(r.id ?? ''), new Date(r.timestamp).toISOString(), r.source ?? 'camera', r.deviceId, r.value].map(csvField).join(',')
+  );
+  return [header, ...rows].join('\r\n');
+}
+
+export function scansToJson(records: ScanRecord[]): string {
+  return JSON.stringify(
+    records.map(r => ({ ...r, isoTimestamp: new Date(r.timestamp).toISOString() })),
+    null,
+    2
+  );
+}
@@ -0,0 +1,113 @@
+import { getTrackCapabilities } from './cameraControls';
+
+/** Cumulative decode-loop counters kept by FrameScanner. */
+export interface ScanStats {
+  /** performance.now() when start() was called. */
+  startedAt: number;
+  /** performance.now() of the first successful decode (null until then). */
+  firstDecodeAt: number | null;
+  /** Frames run through the decoder. */
+  attempts: number;
+  /** Frames that yielded a code. */
+  decodes: number;
+  /** Exceptions in the decode loop plus camera start failures. */
+  errors: number;
+  /** Sum of the time spent decoding (draw + getImageData + jsQR). */
+  totalDecodeMs: number;
+  maxDecodeMs: number;
+}
+
+/** Counters at a point in time; the start of a measuring window. */
+export interface ScanStatsSnapshot {
+  stats: ScanStats;
+  takenAt: number;
+}
+
+/** Derived metrics for display and telemetry. */
+export interface ScanMetrics {
+  /** Decode attempts per second over the measured window. */
+  attemptsPerSecond: number;
+  /** Mean time per decode attempt in the window (ms). */
+  avgDecodeMs: number;
+  /** Slowest decode attempt since start (ms). */
+  maxDecodeMs: number;
+  /** Milliseconds from start to the first decoded code (null if none yet). */
+  timeToFirstScanMs: number | null;
+  /** Errors per decode attempt in the window (0..1). */
+  errorRate: number;
+  attempts: number;
+  decodes: number;
+  errors: number;
+  /** Length of the measured window (ms). */
+  windowMs: number;
+}
+
+/** What the active video track actually delivers. */
+export interface TrackDiagnostics {
+  label: string;
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+  facingMode: string | null;
+  readyState: MediaStreamTrackState;
+  muted: boolean;
+  /** Capability names the track reports (zoom, torch, focusMode, ...). */
+  capabilities: string[];
+}
+
+export const createScanStats = (startedAt: number = performance.now()): ScanStats => ({
+  startedAt,
+  firstDecodeAt: null,
+  attempts: 0,
+  decodes: 0,
+  errors: 0,
+  totalDecodeMs: 0,
+  maxDecodeMs: 0,
+});
+
+// Helper: Round to one decimal place for display and compact telemetry
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const snapshotStats = (stats: ScanStats, takenAt: number = performance.now()): ScanStatsSnapshot => ({
+  stats: { ...stats },
+  takenAt,
+});
+
+/**
+ * Computes metrics for the window since `since` (or since start if null or from an earlier run).
+ */
+export function computeScanMetrics(current: ScanStats, since: ScanStatsSnapshot | null, now: number = performance.now()): ScanMetrics {
+  const sameRun = since !== null && since.stats.startedAt === current.startedAt;
+  const base = sameRun ? since.stats : createScanStats(current.startedAt);
+  const windowMs = Math.max(1, now - (sameRun ? since.takenAt : current.startedAt));
+  const attempts = current.attempts - base.attempts;
+  const errors = current.errors - base.errors;
+  return {
+    attemptsPerSecond: round1((attempts * 1000) / windowMs),
+    avgDecodeMs: attempts > 0 ? round1((current.totalDecodeMs - base.totalDecodeMs) / attempts) : 0,
+    maxDecodeMs: round1(current.maxDecodeMs),
+    timeToFirstScanMs: current.firstDecodeAt === null ? null : Math.round(current.firstDecodeAt - current.startedAt),
+    errorRate: attempts > 0 ? round1((errors / attempts) * 100) / 100 : 0,
+    attempts,
+    decodes: current.decodes - base.decodes,
+    errors,
+    windowMs: Math.round(windowMs),
+  };
+}
+
+/**
+ * Reads resolution, frame rate and capability names from a video track.
+ */
+export function describeTrack(track: MediaStreamTrack): TrackDiagnostics {
+  const settings = track.getSettings();
+  return {
+    label: track.label,
+    width: settings.width ?? null,
+    height: settings.height ?? null,
+    frameRate: settings.frameRate !== undefined ? round1(settings.frameRate) : null,
+    facingMode: settings.facingMode ?? null,
+    readyState: track.readyState,
+    muted: track.muted,
+    capabilities: Object.keys(getTrackCapabilities(track)).sort(),
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SCANNER_STATE, ScannerEvent, ScannerMachineState, classifyCameraError, describeCameraError, scannerReducer } from './scannerMachine';
+
+const run = (...events: ScannerEvent[]): ScannerMachineState => events.reduce(scannerReducer, INITIAL_SCANNER_STATE);
+
+describe('scannerReducer', () => {
+  it('walks through priming, starting and scanning', () => {
+    expect(run({ type: 'PRIME' }, { type: 'PRIMED' }, { type: 'START' }, { type: 'STARTED' }).status).toBe('scanning');
+  });
+
+  it('ignores transitions that are not allowed from the current state', () => {
+    const idle = run({ type: 'PRIME' }, { type: 'PRIMED' });
+    expect(scannerReducer(idle, { type: 'STARTED' })).toBe(idle);
+    expect(scannerReducer(idle, { type: 'TRACK_LOST' })).toBe(idle);
+  });
+
+  it('resumes a muted track directly and restarts after a hidden tab', () => {
+    const scanning = run({ type: 'START' }, { type: 'STARTED' });
+    expect(run({ type: 'START' }, { type: 'STARTED' }, { type: 'PAUSE', reason: 'muted' }, { type: 'RESUME' }).status).toBe('scanning');
+    const hidden = scannerReducer(scanning, { type: 'PAUSE', reason: 'hidden' });
+    expect(hidden).toEqual({ status: 'paused', error: null, pauseReason: 'hidden' });
+    expect(scannerReducer(hidden, { type: 'RESUME' }).status).toBe('recovering');
+  });
+
+  it('keeps the error until the next start', () => {
+    const failed = run({ type: 'START' }, { type: 'FAIL', error: { kind: 'in-use', message: 'busy' } });
+    expect(failed.error).toEqual({ kind: 'in-use', message: 'busy' });
+    expect(scannerReducer(failed, { type: 'START' })).toEqual({ status: 'starting', error: null, pauseReason: null });
+  });
+});
+
+describe('classifyCameraError', () => {
+  it.each([
+    [new DOMException('denied', 'NotAllowedError'), 'permission-denied'],
+    [new DOMException('busy', 'NotReadableError'), 'in-use'],
+    [new DOMException('gone', 'OverconstrainedError'), 'not-found'],
+    [new Error('Camera permission denied. Please allow camera access in your browser settings.'), 'permission-denied'],
+    [new Error('Camera is already in use or cannot be accessed. Please close other applications using the camera.'), 'in-use'],
+    [new Error('No suitable camera found. Please ensure a camera is connected and enabled.'), 'not-found'],
+    ['weird', 'unknown'],
+  ])('classifies %s as %s', (error, kind) => {
+    expect(classifyCameraError(error).kind).toBe(kind);
+  });
+});
+
+describe('describeCameraError', () => {
+  it('maps kinds to message keys and passes the technical message for unknown errors', () => {
+    expect(describeCameraError({ kind: 'in-use', message: 'busy' })).toEqual({ key: 'cameraError.inUse' });
+    expect(describeCameraError({ kind: 'unknown', message: 'boom' })).toEqual({ key: 'cameraError.unknown', params: { reason: 'boom' } });
+  });
+
+  it('prefers an explicit description', () => {
+    const description = { key: 'cameraError.listFailed', params: { reason: 'boom' } } as const;
+    expect(describeCameraError({ kind: 'unknown', message: 'Failed to list cameras: boom', description })).toBe(description);
+  });
+});
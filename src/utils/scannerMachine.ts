@@ -0,0 +1,126 @@
+// Camera lifecycle of QRScanner as an explicit state machine. QRScanner applies the pure reducer itself
+// (useState plus a ref) so its async start/recover paths can read the current state synchronously.
+import type { Translatable } from '../i18n';
+
+export type ScannerStatus = 'idle' | 'priming' | 'starting' | 'scanning' | 'paused' | 'recovering' | 'error';
+
+export type CameraErrorKind = 'permission-denied' | 'in-use' | 'not-found' | 'unknown';
+
+/** Why a running scan is paused: the tab is hidden (camera released) or the track is muted by the system. */
+export type PauseReason = 'hidden' | 'muted';
+
+export interface CameraError {
+  kind: CameraErrorKind;
+  /** Technical message (logged); the UI shows describeCameraError(). */
+  message: string;
+  /** Shown instead of the generic message for the kind (e.g. why listing the cameras failed). */
+  description?: Translatable;
+}
+
+export interface ScannerMachineState {
+  status: ScannerStatus;
+  error: CameraError | null;
+  pauseReason: PauseReason | null;
+}
+
+export type ScannerEvent =
+  | { type: 'PRIME' }
+  | { type: 'PRIMED' }
+  | { type: 'START' }
+  | { type: 'STARTED' }
+  | { type: 'STOP' }
+  | { type: 'PAUSE'; reason: PauseReason }
+  | { type: 'RESUME' }
+  | { type: 'TRACK_LOST' }
+  | { type: 'FAIL'; error: CameraError };
+
+export const INITIAL_SCANNER_STATE: ScannerMachineState = { status: 'idle', error: null, pauseReason: null };
+
+// Allowed transitions per event (source status -> target status); anything else is ignored
+const TRANSITIONS: Record<ScannerEvent['type'], Partial<Record<ScannerStatus, ScannerStatus>>> = {
+  PRIME: { idle: 'priming', error: 'priming' },
+  PRIMED: { priming: 'idle' },
+  START: { idle: 'starting', error: 'starting' },
+  STARTED: { starting: 'scanning', recovering: 'scanning' },
+  STOP: { starting: 'idle', scanning: 'idle', paused: 'idle', recovering: 'idle', error: 'idle' },
+  // From paused only to update the reason (a muted track whose tab is then hidden)
+  PAUSE: { scanning: 'paused', paused: 'paused', recovering: 'paused' },
+  // A hidden tab released the camera and has to restart it; a muted track just continues
+  RESUME: { paused: 'recovering' },
+  TRACK_LOST: { scanning: 'recovering', paused: 'recovering' },
+  FAIL: { priming: 'error', starting: 'error', scanning: 'error', paused: 'error', recovering: 'error' },
+};
+
+export function scannerReducer(state: ScannerMachineState, event: ScannerEvent): ScannerMachineState {
+  let next = TRANSITIONS[event.type][state.status];
+  if (!next) return state;
+  if (event.type === 'RESUME' && state.pauseReason === 'muted') next = 'scanning';
+  return {
+    status: next,
+    error: event.type === 'FAIL' ? event.error : null,
+    pauseReason: event.type === 'PAUSE' ? event.reason : null,
+  };
+}
+
+/** Camera is held or about to be (the start button acts as stop). */
+export const isCameraActive = (status: ScannerStatus): boolean =>
+  status === 'starting' || status === 'scanning' || status === 'paused' || status === 'recovering';
+
+/**
+ * Status line (message key) for the transient states (null for the others).
+ */
+export function describeScannerStatus(status: ScannerStatus, pauseReason: PauseReason | null): Translatable | null {
+  if (status === 'recovering') return { key: 'status.recovering' };
+  if (status !== 'paused') return null;
+  return { key: pauseReason === 'hidden' ? 'status.pausedHidden' : 'status.pausedMuted' };
+}
+
+// CameraManager.startStream() rethrows getUserMedia errors as plain Errors with these messages
+const CAMERA_MANAGER_MESSAGES: Array<[RegExp, CameraErrorKind]> = [
+  [/permission denied/i, 'permission-denied'],
+  [/already in use|timed out or was aborted/i, 'in-use'],
+  [/no suitable camera found|could not satisfy camera constraints/i, 'not-found'],
+];
+
+/**
+ * Maps getUserMedia/start errors (DOMException names, or CameraManager's messages) to the states shown to the user.
+ */
+export function classifyCameraError(err: unknown): CameraError {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  const message = err instanceof Error || err instanceof DOMException ? err.message : String(err);
+  const known = CAMERA_MANAGER_MESSAGES.find(([pattern]) => pattern.test(message));
+  if (known) return { kind: known[1], message };
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return { kind: 'permission-denied', message };
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return { kind: 'in-use', message };
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return { kind: 'not-found', message };
+    default:
+      return { kind: 'unknown', message: message || 'An unknown error occurred during scanning.' };
+  }
+}
+
+/**
+ * User-facing explanation with the next step, as a message to translate.
+ */
+export function describeCameraError(error: CameraError): Translatable {
+  if (error.description) return error.description;
+  switch (error.kind) {
+    case 'permission-denied':
+      return { key: 'cameraError.permissionDenied' };
+    case 'in-use':
+      return { key: 'cameraError.inUse' };
+    case 'not-found':
+      return { key: 'cameraError.notFound' };
+    default:
+      return { key: 'cameraError.unknown', params: { reason: error.message } };
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Registers the service worker (public/sw.js).
+ * On the dev server it is registered as `sw.js?dev`, which only queues failed screenshot
+ * uploads: caching the app shell there would serve stale modules and fight with HMR.
+ */
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+  const script = import.meta.env.PROD ? '/sw.js' : '/sw.js?dev';
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(script).catch(error => {
+      console.error('[Service Worker] Registration failed:', error);
+    });
+  });
+}
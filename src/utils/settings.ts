@@ -0,0 +1,135 @@
+import { DEFAULT_SCAN_COOLDOWN_MS } from './scanHistory';
+import { ValidationRule } from './validation';
+import { WebhookEndpoint } from './webhooks';
+import { DEFAULT_KEYBOARD_WEDGE_SETTINGS, KeyboardWedgeSettings } from './keyboardWedge';
+import { LanguagePreference, Locale, SUPPORTED_LOCALES } from '../i18n';
+
+/** Feedback channels signalled on a scan (see feedback.ts). */
+export interface FeedbackSettings {
+  /** Silences all channels without changing them. */
+  muted: boolean;
+  sound: boolean;
+  vibration: boolean;
+  flash: boolean;
+  /** Beep volume (0..1). */
+  volume: number;
+  /** Also signal already recorded codes (otherwise only new and rejected ones). */
+  duplicates: boolean;
+  /** A code that keeps being read within this many milliseconds is signalled only once. */
+  suppressionMs: number;
+}
+
+/** Persisted scanner preferences (localStorage). */
+export interface ScannerSettings {
+  /** deviceId of the camera used last ('' if none remembered). */
+  lastDeviceId: string;
+  /** Label of that camera, used to find it again when browsers rotate device IDs. */
+  lastDeviceLabel: string;
+  /** Start scanning automatically once the cameras are listed. */
+  autoStart: boolean;
+  /** Duplicate window in milliseconds (see scanHistory). */
+  cooldownMs: number;
+  /** Stop after the first successful scan instead of scanning continuously. */
+  stopOnScan: boolean;
+  feedback: FeedbackSettings;
+  /** Results must match one enabled rule to be accepted (no enabled rule: accept all). */
+  validationRules: ValidationRule[];
+  /** Endpoints accepted scans are forwarded to. */
+  webhooks: WebhookEndpoint[];
+  /** Keyboard-wedge (HID) handheld scanner input. */
+  keyboardWedge: KeyboardWedgeSettings;
+  /** UI language; 'auto' follows the browser. */
+  language: LanguagePreference;
+  /** Name shown to the other participants of a live session ('' shows the client ID). */
+  liveSessionName: string;
+}
+
+export const DEFAULT_SETTINGS: ScannerSettings = {
+  lastDeviceId: '',
+  lastDeviceLabel: '',
+  autoStart: true,
+  cooldownMs: DEFAULT_SCAN_COOLDOWN_MS,
+  stopOnScan: false,
+  feedback: {
+    muted: false,
+    sound: true,
+    vibration: true,
+    flash: true,
+    volume: 0.5,
+    duplicates: true,
+    suppressionMs: 1500,
+  },
+  validationRules: [],
+  webhooks: [],
+  keyboardWedge: DEFAULT_KEYBOARD_WEDGE_SETTINGS,
+  language: 'auto',
+  liveSessionName: '',
+};
+
+const STORAGE_KEY = 'qr-scanner.settings';
+
+/**
+ * Loads settings, filling in defaults for missing or invalid fields
+ * (so settings saved by older versions keep working).
+ */
+export function loadSettings(): ScannerSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Partial<ScannerSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      feedback: { ...DEFAULT_SETTINGS.feedback, ...stored.feedback },
+      validationRules: Array.isArray(stored.validationRules) ? stored.validationRules : DEFAULT_SETTINGS.validationRules,
+      webhooks: Array.isArray(stored.webhooks) ? stored.webhooks : DEFAULT_SETTINGS.webhooks,
+      keyboardWedge: { ...DEFAULT_SETTINGS.keyboardWedge, ...stored.keyboardWedge },
+      language: SUPPORTED_LOCALES.includes(stored.language as Locale) ? stored.language as Locale : DEFAULT_SETTINGS.language,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: ScannerSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Local storage unavailable for settings persistence.', e);
+  }
+}
+
+// Labels of rear cameras across platforms/languages
+const REAR_CAMERA_LABEL = /back|rear|environment|rück|arrière|trasera/i;
+
+/** Camera to look for first (e.g. the remembered one). */
+export interface DevicePreference {
+  deviceId?: string;
+  label?: string;
+}
+
+/**
+ * Picks the camera to use from the listed devices:
+ * 1. the preferred deviceId, 2. a device with the preferred label,
+ * 3. the device the browser chose for `facingMode: environment` (if known),
+ * 4. a device labelled as rear camera, 5. the first device.
+ * @param environmentDeviceId deviceId obtained from a `facingMode: environment` stream, if any.
+ */
+export function resolvePreferredDevice(
+  devices: MediaDeviceInfo[],
+  preference: DevicePreference,
+  environmentDeviceId?: string
+): MediaDeviceInfo | null {
+  if (devices.length === 0) return null;
+  if (preference.deviceId) {
+    const byId = devices.find(d => d.deviceId === preference.deviceId);
+    if (byId) return byId;
+  }
+  if (preference.label) {
+    const byLabel = devices.find(d => d.label === preference.label);
+    if (byLabel) return byLabel;
+  }
+  if (environmentDeviceId) {
+    const environment = devices.find(d => d.deviceId === environmentDeviceId);
+    if (environment) return environment;
+  }
+  return devices.find(d => REAR_CAMERA_LABEL.test(d.label)) ?? devices[0];
+}
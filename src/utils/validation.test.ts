@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationRule, validateScan } from './validation';
+
+const schemaRule = (schema: string): ValidationRule => ({ id: 'rule_1', name: 'Ticket', enabled: true, kind: 'jsonSchema', schema });
+
+describe('validateScan', () => {
+  it('accepts values matching a JSON schema pattern', () => {
+    const rules = [schemaRule('{"type":"object","properties":{"id":{"type":"string","pattern":"^T-\\\\d+$"}}}')];
+    expect(validateScan('{"id":"T-42"}', rules).accepted).toBe(true);
+    expect(validateScan('{"id":"X-42"}', rules).failures).toEqual([{ rule: 'Ticket', reason: { key: 'validation.reason.schemaMismatch', params: { path: '$.id', pattern: '^T-\\d+$' } } }]);
+  });
+
+  it('rejects with a rule failure instead of throwing on an invalid schema pattern', () => {
+    const rules = [schemaRule('{"properties":{"id":{"pattern":"(unclosed"}}}')];
+    const result = validateScan('{"id":"T-42"}', rules);
+    expect(result.accepted).toBe(false);
+    expect(result.failures).toEqual([{ rule: 'Ticket', reason: { key: 'validation.reason.schemaPattern', params: { path: '$.id', pattern: '(unclosed' } } }]);
+    expect(validateScan('{"id":"T-43"}', rules).accepted).toBe(false);
+  });
+
+  it('only counts own properties as present', () => {
+    expect(validateScan('{}', [schemaRule('{"required":["constructor"]}')]).failures[0].reason).toEqual({ key: 'validation.reason.missingProperty', params: { path: '$', name: 'constructor' } });
+    const closed = [schemaRule('{"properties":{"id":{}},"additionalProperties":false}')];
+    expect(validateScan('{"id":1,"toString":2}', closed).failures[0].reason).toEqual({ key: 'validation.reason.unexpectedProperty', params: { path: '$', name: 'toString' } });
+  });
+
+  it('rejects schemas that are not JSON objects', () => {
+    expect(validateScan('{}', [schemaRule('null')]).failures[0].reason).toEqual({ key: 'validation.reason.schemaNotObject' });
+  });
+});
@@ -0,0 +1,223 @@
+import type { Translatable } from '../i18n';
+import { parseGs1 } from '../payloads';
+
+/** Subset of JSON Schema understood by the validator (draft-07 keywords). */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Only `false` is checked (rejects properties not listed in `properties`). */
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+interface RuleBase {
+  id: string;
+  /** Shown in the UI and logs. */
+  name: string;
+  enabled: boolean;
+}
+
+/** A configurable check a decoded value can pass. Stored with the settings. */
+export type ValidationRule =
+  | (RuleBase & { kind: 'regex'; pattern: string; flags?: string })
+  | (RuleBase & { kind: 'gtin' })
+  | (RuleBase & { kind: 'jsonSchema'; /** JSON Schema as JSON text. */ schema: string });
+
+export type ValidationRuleKind = ValidationRule['kind'];
+
+/** Why a single rule did not match. */
+export interface RuleFailure {
+  rule: string;
+  reason: Translatable;
+}
+
+export interface ValidationResult {
+  accepted: boolean;
+  /** Name of the rule that accepted the value (null if no rules are active or it was rejected). */
+  rule: string | null;
+  /** Per-rule reasons for a rejection. */
+  failures: RuleFailure[];
+}
+
+export const createRuleId = (): string =>
+  `rule_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * Creates a rule of the given kind with empty parameters.
+ */
+export function createRule(kind: ValidationRuleKind): ValidationRule {
+  const base = { id: createRuleId(), enabled: true };
+  switch (kind) {
+    case 'regex':
+      return { ...base, kind, name: 'Pattern', pattern: '' };
+    case 'gtin':
+      return { ...base, kind, name: 'GS1 GTIN' };
+    case 'jsonSchema':
+      return { ...base, kind, name: 'JSON schema', schema: '{\n  "type": "object"\n}' };
+  }
+}
+
+/**
+ * GS1 check digit (mod 10, weights 3/1 from the right) for the digits before the check digit.
+ */
+export function gtinCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks a GTIN-8/12/13/14, given plain or as AI (01) of a GS1 element string.
+ * @returns null if valid, otherwise the reason.
+ */
+export function checkGtin(value: string): Translatable | null {
+  let gtin = value.trim();
+  if (!/^\d+$/.test(gtin)) {
+    const element = parseGs1(gtin)?.find(e => e.ai === '01');
+    if (!element) return { key: 'validation.reason.notGtin' };
+    gtin = element.value;
+  }
+  if (![8, 12, 13, 14].includes(gtin.length) || !/^\d+$/.test(gtin)) {
+    return { key: 'validation.reason.gtinLength', params: { length: gtin.length } };
+  }
+  const expected = gtinCheckDigit(gtin.slice(0, -1));
+  const actual = Number(gtin.slice(-1));
+  return expected === actual ? null : { key: 'validation.reason.checkDigit', params: { actual, expected } };
+}
+
+// Helper: Own keys only, so names like "constructor" or "toString" are not found on the prototype
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+// Helper: JSON type name as used by JSON Schema
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validates a parsed JSON value against the supported schema subset.
+ * @returns The first violation (its message starts with the path), or null if valid.
+ */
+export function checkJsonSchema(value: unknown, schema: JsonSchema, path = '$'): Translatable | null {
+  if (schema.type) {
+    const actual = jsonTypeOf(value);
+    const matchesType = schema.type === 'integer'
+      ? typeof value === 'number' && Number.isInteger(value)
+      : actual === schema.type;
+    if (!matchesType) return { key: 'validation.reason.type', params: { path, expected: schema.type, actual } };
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return { key: 'validation.reason.enum', params: { path, options: JSON.stringify(schema.enum) } };
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return { key: 'validation.reason.minLength', params: { path, min: schema.minLength } };
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return { key: 'validation.reason.maxLength', params: { path, max: schema.maxLength } };
+    }
+    if (schema.pattern !== undefined) {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(schema.pattern);
+      } catch {
+        return { key: 'validation.reason.schemaPattern', params: { path, pattern: schema.pattern } };
+      }
+      if (!pattern.test(value)) return { key: 'validation.reason.schemaMismatch', params: { path, pattern: schema.pattern } };
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return { key: 'validation.reason.minimum', params: { path, min: schema.minimum } };
+    if (schema.maximum !== undefined && value > schema.maximum) return { key: 'validation.reason.maximum', params: { path, max: schema.maximum } };
+  }
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const violation = checkJsonSchema(value[i], schema.items, `${path}[${i}]`);
+      if (violation) return violation;
+    }
+  }
+  if (jsonTypeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const missing = (schema.required ?? []).find(key => !hasOwn(record, key));
+    if (missing) return { key: 'validation.reason.missingProperty', params: { path, name: missing } };
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (hasOwn(record, key)) {
+        const violation = checkJsonSchema(record[key], propertySchema, `${path}.${key}`);
+        if (violation) return violation;
+      }
+    }
+    if (schema.additionalProperties === false) {
+      const extra = Object.keys(record).find(key => !hasOwn(schema.properties ?? {}, key));
+      if (extra) return { key: 'validation.reason.unexpectedProperty', params: { path, name: extra } };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks a value against one rule.
+ * @returns null if the rule matches, otherwise the reason it does not.
+ */
+export function checkRule(value: string, rule: ValidationRule): Translatable | null {
+  switch (rule.kind) {
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(rule.pattern, rule.flags);
+      } catch {
+        return { key: 'validation.reason.invalidPattern', params: { pattern: rule.pattern } };
+      }
+      return pattern.test(value) ? null : { key: 'validation.reason.noMatch', params: { pattern: rule.pattern, flags: rule.flags ?? '' } };
+    }
+    case 'gtin':
+      return checkGtin(value);
+    case 'jsonSchema': {
+      let schema: JsonSchema;
+      try {
+        schema = JSON.parse(rule.schema) as JsonSchema;
+      } catch {
+        return { key: 'validation.reason.schemaNotJson' };
+      }
+      if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) return { key: 'validation.reason.schemaNotObject' };
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return { key: 'validation.reason.notJson' };
+      }
+      return checkJsonSchema(parsed, schema);
+    }
+  }
+}
+
+/**
+ * Accepts a value if any enabled rule matches; without enabled rules everything is accepted.
+ */
+export function validateScan(value: string, rules: ValidationRule[]): ValidationResult {
+  const active = rules.filter(rule => rule.enabled);
+  if (active.length === 0) {
+    return { accepted: true, rule: null, failures: [] };
+  }
+  const failures: RuleFailure[] = [];
+  for (const rule of active) {
+    const failure = checkRule(value, rule);
+    if (failure === null) {
+      return { accepted: true, rule: rule.name, failures: [] };
+    }
+    failures.push({ rule: rule.name, reason: failure });
+  }
+  return { accepted: false, rule: null, failures };
+}
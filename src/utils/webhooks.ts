@@ -0,0 +1,148 @@
+import type { Translatable } from '../i18n';
+import { ScanRecord, ScanSource } from './scanHistory';
+
+/** An HTTP endpoint accepted scans are forwarded to. Stored with the settings. */
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  enabled: boolean;
+  url: string;
+  /** One `Name: value` per line. */
+  headers: string;
+  /** Request body; see renderTemplate for placeholders. */
+  template: string;
+  /** Additional attempts after a failed one (network error, timeout or 5xx). */
+  retries: number;
+  /** Per-attempt timeout in milliseconds. */
+  timeoutMs: number;
+}
+
+/** Values available to payload templates. */
+export interface WebhookContext {
+  value: string;
+  /** ISO 8601 time of the scan. */
+  timestamp: string;
+  clientId: string;
+  deviceId: string;
+  source: ScanSource;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/** Delivery state of one scan to one endpoint. */
+export interface WebhookDelivery {
+  endpointId: string;
+  endpointName: string;
+  status: DeliveryStatus;
+  attempts: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+// Local sink of the dev server (see vite.config.ts)
+export const DEV_WEBHOOK_SINK_URL = '/webhook-sink';
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "value": {{value|json}},
+  "timestamp": {{timestamp|json}},
+  "clientId": {{clientId|json}},
+  "deviceId": {{deviceId|json}}
+}`;
+
+const BASE_RETRY_MS = 1000;
+
+export const createEndpointId = (): string =>
+  `webhook_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+
+export function createWebhookEndpoint(): WebhookEndpoint {
+  return {
+    id: createEndpointId(),
+    name: 'Webhook',
+    enabled: true,
+    url: DEV_WEBHOOK_SINK_URL,
+    headers: 'Content-Type: application/json',
+    template: DEFAULT_WEBHOOK_TEMPLATE,
+    retries: 2,
+    timeoutMs: 5000,
+  };
+}
+
+/** Key identifying a scan record for delivery tracking (the id is only assigned once persisted). */
+export const scanKey = (scan: Pick<ScanRecord, 'timestamp' | 'value'>): string => `${scan.timestamp}|${scan.value}`;
+
+/**
+ * Replaces `{{name}}` with the raw value and `{{name|json}}` with a JSON string literal.
+ * Unknown placeholders are left as they are.
+ */
+export function renderTemplate(template: string, context: WebhookContext): string {
+  return template.replace(/\{\{\s*(\w+)\s*(\|\s*json\s*)?\}\}/g, (match, name: string, json?: string) => {
+    // Own keys only: `{{constructor}}` must stay a placeholder, not render Object's constructor
+    if (!Object.prototype.hasOwnProperty.call(context, name)) return match;
+    const value = String(context[name as keyof WebhookContext]);
+    return json ? JSON.stringify(value) : value;
+  });
+}
+
+/**
+ * Parses `Name: value` lines; blank and malformed lines are skipped.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text.split(/\r?\n/).forEach(line => {
+    const idx = line.indexOf(':');
+    if (idx <= 0) return;
+    const name = line.substring(0, idx).trim();
+    if (name) headers[name] = line.substring(idx + 1).trim();
+  });
+  return headers;
+}
+
+/**
+ * One-line summary of a delivery, e.g. "delivered (200)" or "failed after 3 attempts: HTTP 503".
+ */
+export function describeDelivery(delivery: WebhookDelivery): Translatable {
+  if (delivery.status === 'pending') return { key: 'webhooks.sending' };
+  const retried = delivery.attempts > 1;
+  const params = { attempts: delivery.attempts, status: String(delivery.httpStatus ?? ''), reason: delivery.error ?? '?' };
+  if (delivery.status === 'failed') return { key: retried ? 'webhooks.failedAfter' : 'webhooks.failed', params };
+  if (delivery.httpStatus) return { key: retried ? 'webhooks.deliveredStatusAfter' : 'webhooks.deliveredStatus', params };
+  return { key: retried ? 'webhooks.deliveredAfter' : 'webhooks.delivered', params };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs the rendered template to the endpoint, retrying with exponential backoff.
+ * Client errors (4xx) are not retried.
+ */
+export async function deliverWebhook(endpoint: WebhookEndpoint, context: WebhookContext): Promise<WebhookDelivery> {
+  const body = renderTemplate(endpoint.template, context);
+  const headers = parseHeaderLines(endpoint.headers);
+  const maxAttempts = 1 + Math.max(0, endpoint.retries);
+  const result: WebhookDelivery = { endpointId: endpoint.id, endpointName: endpoint.name, status: 'failed', attempts: 0 };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    result.attempts = attempt;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), endpoint.timeoutMs);
+    try {
+      const res = await fetch(endpoint.url, { method: 'POST', headers, body, signal: controller.signal });
+      result.httpStatus = res.status;
+      if (res.ok) {
+        return { ...result, status: 'delivered', error: undefined };
+      }
+      result.error = `HTTP ${res.status}`;
+      if (res.status >= 400 && res.status < 500) return result;
+    } catch (err) {
+      result.error = controller.signal.aborted
+        ? `Timed out after ${endpoint.timeoutMs} ms`
+        : err instanceof Error ? err.message : String(err);
+    } finally {
+      clearTimeout(timer);
+    }
+    if (attempt < maxAttempts) {
+      await sleep(BASE_RETRY_MS * 2 ** (attempt - 1));
+    }
+  }
+  return result;
+}
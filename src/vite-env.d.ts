@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Endpoint that receives submitted inventory sessions (default: /sessions on the dev server). */
+  readonly VITE_SESSION_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
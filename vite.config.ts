@@ -3,41 +3,99 @@ import react from '@vitejs/plugin-react'
 import basicSsl from '@vitejs/plugin-basic-ssl'
 import fs from 'fs'
 import path from 'path'
+import { createLogStore } from './server/logStore'
+import { createLogMiddleware } from './server/logRoutes'
+import { createScreenshotUploadMiddleware, pruneScreenshots, ScreenshotRetention } from './server/screenshots'
+import { renderDebugPage } from './server/debugPage'
+import { createTelemetryAggregator } from './server/telemetry'
+import { createLiveSessionHub } from './server/liveSessions'
 
-// Vite plugin to accept POST requests at /log and print them to the server console
+// Dev-server storage locations (both git-ignored)
+const LOG_DIR = path.resolve(process.cwd(), 'logs')
+const UPLOAD_DIR = path.resolve(process.cwd(), 'debug_uploads')
+
+// Clients that logged within this window are shown as online on /debug
+const CLIENT_ONLINE_WINDOW_MS = 2 * 60 * 1000
+
+// Screenshot uploads: size cap per image and what is kept in debug_uploads
+const SCREENSHOT_MAX_BYTES = 10 * 1024 * 1024
+const SCREENSHOT_RETENTION: ScreenshotRetention = {
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  maxFiles: 500,
+  maxTotalBytes: 500 * 1024 * 1024,
+}
+const SCREENSHOT_PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+// Requests kept in memory by the webhook sink
+const WEBHOOK_SINK_LIMIT = 50
+
+// Vite plugin to accept POST requests at /log, print them to the server console and
+// store them as rotating NDJSON (queryable via GET /log, live via GET /log/stream).
+// Also hosts the local debug routes (/debug, /upload-screenshot, /sessions, /webhook-sink)
+// and the WebSocket hub for live scan sessions (/live-session).
 const serverLogPlugin = (): Plugin => ({
   name: 'server-log',
   configureServer(server) {
-    server.middlewares.use('/log', (req, res, next) => {
-      if (req.method === 'POST') {
-        let body = '';
-        req.on('data', chunk => {
-          body += chunk.toString();
-        });
-        req.on('end', () => {
-          try {
-            const logPayload = JSON.parse(body);
-            // Format the log message on the server using received structured data
-            const { clientId, source, level, component, message, dataString } = logPayload;
-            const timestamp = new Date().toISOString(); // Add timestamp on server receive time
-            // Format: "[Timestamp - Client id - Level]: [Source - Component] Message OptionalDataString"
-            const finalMessage = `[${timestamp} - ${clientId || 'UNKNOWN'} - ${level || 'INFO'}]: [${source || 'Unknown'} - ${component || 'Unknown'}] ${message || ''}${dataString || ''}`;
-            console.log(finalMessage); // Log the fully formatted string
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ status: 'logged' }));
-          } catch (e) {
-            console.error('[Server Log] Error parsing log data:', e);
-            res.writeHead(400, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ status: 'error', message: 'Invalid JSON' }));
-          }
-        });
-      } else {
-        next(); // Pass other requests along
+    const logStore = createLogStore({ dir: LOG_DIR })
+    // Per-client decode telemetry, rebuilt from the stored logs on startup
+    const telemetry = createTelemetryAggregator()
+    logStore.query({ component: 'Telemetry' }).forEach(entry => telemetry.record(entry))
+
+    server.middlewares.use('/log', createLogMiddleware({
+      logStore,
+      telemetry,
+      uploadDir: UPLOAD_DIR,
+      onlineWindowMs: CLIENT_ONLINE_WINDOW_MS,
+    }))
+
+    // Screenshot uploads (JSON dataURL, multipart or raw image) plus listing, download and delete
+    server.middlewares.use('/upload-screenshot', createScreenshotUploadMiddleware({
+      dir: UPLOAD_DIR,
+      maxBytes: SCREENSHOT_MAX_BYTES,
+      retention: SCREENSHOT_RETENTION,
+    }))
+
+    // Uploads are pruned on every upload; this also catches screenshots that merely aged out
+    const pruneUploads = () => {
+      const pruned = pruneScreenshots(UPLOAD_DIR, SCREENSHOT_RETENTION);
+      if (pruned.length) console.log(`[Upload Screenshot] Retention removed ${pruned.length} screenshot(s)`);
+    }
+    pruneUploads()
+    const pruneTimer = setInterval(pruneUploads, SCREENSHOT_PRUNE_INTERVAL_MS)
+    server.httpServer?.on('close', () => clearInterval(pruneTimer))
+
+    // Debug page (its screenshots come from /upload-screenshot)
+    server.middlewares.use('/debug', (req, res, next) => {
+      if (req.method !== 'GET') return next();
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (url.pathname === '/' || url.pathname === '') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(renderDebugPage());
+        return;
       }
+      next();
     });
 
-    // Endpoint to receive screenshots as dataURL JSON and save to disk
-    server.middlewares.use('/upload-screenshot', (req, res, next) => {
+    // Endpoint to store submitted inventory sessions (POST) and list them (GET)
+    server.middlewares.use('/sessions', (req, res, next) => {
+      const SESSIONS_DIR = path.join(UPLOAD_DIR, 'sessions');
+
+      if (req.method === 'GET') {
+        try {
+          const files = fs.existsSync(SESSIONS_DIR)
+            ? fs.readdirSync(SESSIONS_DIR).filter(f => f.endsWith('.json')).sort()
+            : [];
+          const sessions = files.map(f => JSON.parse(fs.readFileSync(path.join(SESSIONS_DIR, f), 'utf8')));
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(sessions));
+        } catch (err) {
+          console.error('[Sessions] Error reading sessions:', err);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'error', message: 'Failed to read sessions' }));
+        }
+        return;
+      }
       if (req.method !== 'POST') return next();
 
       let body = '';
@@ -46,52 +104,89 @@ const serverLogPlugin = (): Plugin => ({
       });
       req.on('end', () => {
         try {
-          const { clientId, source, component, note, dataURL } = JSON.parse(body || '{}');
-          if (typeof dataURL !== 'string' || !dataURL.startsWith('data:image/')) {
+          const session = JSON.parse(body || '{}');
+          if (typeof session.sessionId !== 'string' || !Array.isArray(session.lines)) {
             res.writeHead(400, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ status: 'error', message: 'dataURL (data:image/*;base64,...) required' }));
+            res.end(JSON.stringify({ status: 'error', message: 'sessionId and lines[] required' }));
             return;
           }
 
-          // Prepare output directory
-          const OUTPUT_DIR = path.resolve(process.cwd(), 'debug_uploads');
-          if (!fs.existsSync(OUTPUT_DIR)) {
-            fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+          if (!fs.existsSync(SESSIONS_DIR)) {
+            fs.mkdirSync(SESSIONS_DIR, { recursive: true });
           }
-
-          // Extract mime and base64 payload
-          const commaIdx = dataURL.indexOf(',');
-          const header = dataURL.substring(0, commaIdx);
-          const base64 = dataURL.substring(commaIdx + 1);
-          const mimeMatch = header.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64$/);
-          const mime = mimeMatch ? mimeMatch[1] : 'image/png';
-          const ext = mime === 'image/jpeg' ? 'jpg' : mime.split('/')[1] || 'png';
-          const buffer = Buffer.from(base64, 'base64');
-
-          // Build filename with timestamp and client info
           const ts = new Date().toISOString().replace(/[:]/g, '-');
-          const safeClient = (clientId || 'UNKNOWN').toString().replace(/[^a-zA-Z0-9_-]/g, '_');
-          const safeSource = (source || 'Unknown').toString().replace(/[^a-zA-Z0-9_-]/g, '_');
-          const safeComponent = (component || 'Unknown').toString().replace(/[^a-zA-Z0-9_-]/g, '_');
-          const baseName = `${ts}__${safeClient}__${safeSource}__${safeComponent}`;
-          const filename = `${baseName}.${ext}`;
-          const filepath = path.join(OUTPUT_DIR, filename);
-
-          fs.writeFileSync(filepath, buffer);
-
-          // Optional sidecar metadata
-          if (note) {
-            const meta = { clientId, source, component, note, mime, size: buffer.length, createdAt: ts };
-            fs.writeFileSync(path.join(OUTPUT_DIR, `${baseName}.json`), JSON.stringify(meta, null, 2));
-          }
+          const safeSession = session.sessionId.replace(/[^a-zA-Z0-9_-]/g, '_');
+          const filename = `${ts}__${safeSession}.json`;
+          const stored = { ...session, receivedAt: new Date().toISOString() };
+          fs.writeFileSync(path.join(SESSIONS_DIR, filename), JSON.stringify(stored, null, 2));
 
+          console.log(`[Sessions] Stored session ${session.sessionId} from ${session.clientId || 'UNKNOWN'} with ${session.lines.length} lines -> ${filename}`);
           res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ status: 'saved', file: filename, dir: OUTPUT_DIR }));
+          res.end(JSON.stringify({ status: 'saved', file: filename }));
         } catch (err) {
-          console.error('[Upload Screenshot] Error:', err);
+          console.error('[Sessions] Error:', err);
           res.writeHead(400, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ status: 'error', message: 'Invalid request body' }));
+          res.end(JSON.stringify({ status: 'error', message: 'Invalid JSON' }));
+        }
+      });
+    });
+
+    // Live scan sessions: WebSocket hub on /live-session (Vite's HMR socket ignores upgrades
+    // without its own protocol), GET lists the open sessions
+    const liveSessions = createLiveSessionHub()
+    server.httpServer?.on('upgrade', (req, socket, head) => {
+      if (new URL(req.url || '/', 'http://localhost').pathname === '/live-session') {
+        liveSessions.handleUpgrade(req, socket, head);
+      }
+    })
+    server.httpServer?.on('close', () => liveSessions.close())
+    server.middlewares.use('/live-session', (req, res, next) => {
+      if (req.method !== 'GET') return next();
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(liveSessions.sessions()));
+    })
+
+    // Local webhook sink for testing scan forwarding: POST echoes the request, GET lists the latest ones.
+    // ?status=503 answers with that status, ?delay=<ms> delays the answer (to test retries and timeouts).
+    const webhookRequests: Array<Record<string, unknown>> = []
+    server.middlewares.use('/webhook-sink', (req, res, next) => {
+      if (req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(webhookRequests));
+        return;
+      }
+      if (req.method !== 'POST') return next();
+
+      const url = new URL(req.url || '/', 'http://localhost');
+      // writeHead() throws on anything but a 3-digit status, which would crash the dev server in the timer
+      const requested = Number(url.searchParams.get('status'));
+      const status = Number.isInteger(requested) && requested >= 100 && requested <= 599 ? requested : 200;
+      const delay = Math.min(Number(url.searchParams.get('delay')) || 0, 60000);
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk.toString();
+      });
+      req.on('end', () => {
+        let parsed: unknown = body;
+        try {
+          parsed = JSON.parse(body);
+        } catch {
+          // Non-JSON templates are echoed as text
         }
+        const received = {
+          receivedAt: new Date().toISOString(),
+          path: url.pathname,
+          contentType: req.headers['content-type'] || null,
+          headers: req.headers,
+          body: parsed,
+        };
+        webhookRequests.unshift(received);
+        webhookRequests.splice(WEBHOOK_SINK_LIMIT);
+        console.log(`[Webhook Sink] ${status} ${typeof parsed === 'string' ? parsed : JSON.stringify(parsed)}`);
+        setTimeout(() => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: status < 400 ? 'received' : 'error', echo: received }));
+        }, delay);
       });
     });
   }
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config'
+import react from '@vitejs/plugin-react'
+
+// Kept apart from vite.config.ts so test runs don't start the dev-server middleware (log store, uploads).
+// Server tests opt into the node environment with a `@vitest-environment node` docblock.
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}', 'server/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    restoreMocks: true,
+    // The library's dist uses extensionless ESM imports that only a bundler resolves
+    server: { deps: { inline: ['qr-scanner-library'] } },
+  },
+})